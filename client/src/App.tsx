@@ -6,21 +6,30 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
 import { PreferencesProvider } from "@/components/preferences-provider";
 import { DomainProvider } from "@/contexts/domain-context";
+import { AuthProvider } from "@/contexts/auth-context";
+import { LiveUpdatesProvider } from "@/contexts/live-updates-context";
+import { ProtectedRoute } from "@/components/protected-route";
+import AuthPage from "@/pages/auth";
 import Dashboard from "@/pages/dashboard";
 import Settings from "@/pages/settings";
 import Plugins from "@/pages/plugins";
 import DataSources from "@/pages/data-sources";
+import Products from "@/pages/products";
 import CustomDashboard from "@/pages/custom-dashboard";
+import AuditLog from "@/pages/audit-log";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Dashboard} />
-      <Route path="/settings" component={Settings} />
-      <Route path="/plugins" component={Plugins} />
-      <Route path="/data-sources" component={DataSources} />
-      <Route path="/custom-dashboard/:schemaId" component={CustomDashboard} />
+      <Route path="/auth" component={AuthPage} />
+      <ProtectedRoute path="/" component={Dashboard} />
+      <ProtectedRoute path="/settings" component={Settings} />
+      <ProtectedRoute path="/plugins" component={Plugins} />
+      <ProtectedRoute path="/products" component={Products} />
+      <ProtectedRoute path="/data-sources" component={DataSources} />
+      <ProtectedRoute path="/audit-log" component={AuditLog} />
+      <ProtectedRoute path="/custom-dashboard/:schemaId" component={CustomDashboard} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -33,8 +42,12 @@ function App() {
         <DomainProvider>
           <PreferencesProvider>
             <TooltipProvider>
-              <Toaster />
-              <Router />
+              <AuthProvider>
+                <LiveUpdatesProvider>
+                  <Toaster />
+                  <Router />
+                </LiveUpdatesProvider>
+              </AuthProvider>
             </TooltipProvider>
           </PreferencesProvider>
         </DomainProvider>
@@ -0,0 +1,311 @@
+/**
+ * API Keys Settings
+ * Create and revoke the keys scripts use to call the API as the signed-in user
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { queryClient, describeError } from "@/lib/queryClient";
+import { getApiKeys, createApiKey, revokeApiKey } from "@/lib/ml-api";
+import { useToast } from "@/hooks/use-toast";
+import { createApiKeySchema, type CreateApiKey, type PublicApiKey } from "@shared/schema";
+import { KeyRound, Plus, Copy, Loader2 } from "lucide-react";
+
+const API_KEYS_QUERY_KEY = ['/api/api-keys'];
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+function keyStatus(key: PublicApiKey): { label: string; variant: "default" | "secondary" | "destructive" } {
+  if (key.revokedAt) return { label: "revoked", variant: "destructive" };
+  if (key.expiresAt && new Date(key.expiresAt) <= new Date()) return { label: "expired", variant: "secondary" };
+  return { label: "active", variant: "default" };
+}
+
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleDateString() : "—";
+}
+
+export function ApiKeysSettings() {
+  const [showForm, setShowForm] = useState(false);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<PublicApiKey | null>(null);
+  const { toast } = useToast();
+
+  const { data: keys = [], isLoading } = useQuery({
+    queryKey: API_KEYS_QUERY_KEY,
+    queryFn: getApiKeys,
+  });
+
+  const form = useForm<CreateApiKey>({
+    resolver: zodResolver(createApiKeySchema),
+    defaultValues: { name: "", scope: "read", expiresInDays: 90 },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createApiKey,
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: API_KEYS_QUERY_KEY });
+      setShowForm(false);
+      form.reset();
+      setCreatedKey(created.key);
+    },
+    onError: (error) => {
+      toast({
+        title: "Creation Failed",
+        description: describeError(error, "Unable to create the API key. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: revokeApiKey,
+    onSuccess: (key) => {
+      queryClient.invalidateQueries({ queryKey: API_KEYS_QUERY_KEY });
+      toast({
+        title: "API Key Revoked",
+        description: `${key.name} can no longer be used.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Revoke Failed",
+        description: describeError(error, "Unable to revoke the API key. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyKey = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    toast({ title: "Copied", description: "The API key is on your clipboard." });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              API Keys
+            </CardTitle>
+            <CardDescription>
+              Let scripts call the API as you. Send the key as <code>Authorization: Bearer &lt;key&gt;</code>.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setShowForm(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Key
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : keys.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No API keys yet
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Key</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {keys.map((key) => {
+                const status = keyStatus(key);
+                return (
+                  <TableRow key={key.id}>
+                    <TableCell className="font-medium">{key.name}</TableCell>
+                    <TableCell className="font-mono text-xs">{key.prefix}…</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{key.scope}</Badge>
+                    </TableCell>
+                    <TableCell>{key.expiresAt ? formatDate(key.expiresAt) : "Never"}</TableCell>
+                    <TableCell>{formatDate(key.lastUsedAt)}</TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!key.revokedAt && (
+                        <Button variant="outline" size="sm" onClick={() => setRevoking(key)}>
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* New Key Dialog */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New API Key</DialogTitle>
+            <DialogDescription>
+              Read keys can only fetch data. Write keys can do anything your role allows.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit((values) => createMutation.mutate(values))}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. BI export" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="scope"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Scope</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="read">Read</SelectItem>
+                        <SelectItem value="write">Write</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="expiresInDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expires</FormLabel>
+                    <Select
+                      value={field.value ? String(field.value) : "never"}
+                      onValueChange={(value) => field.onChange(value === "never" ? undefined : Number(value))}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {EXPIRY_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="submit" disabled={createMutation.isPending}>
+                  {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Create Key
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* The plain key is only available right after creation */}
+      <Dialog open={createdKey !== null} onOpenChange={(open) => !open && setCreatedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Copy Your API Key</DialogTitle>
+            <DialogDescription>
+              This is the only time the key is shown. Store it somewhere safe.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={createdKey ?? ""} className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={copyKey}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setCreatedKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={revoking !== null} onOpenChange={(open) => !open && setRevoking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke {revoking?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Scripts using this key will start getting 401 responses. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => revoking && revokeMutation.mutate(revoking.id)}>
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
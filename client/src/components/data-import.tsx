@@ -14,6 +14,7 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { DatasetSchema, DataSource, ImportMapping } from "@/lib/data-schema";
 import { dataSchemaManager } from "@/lib/data-schema-manager";
+import { reportAuditEvent } from "@/lib/ml-api";
 import { Upload, FileText, CheckCircle, AlertCircle, MapPin, Table } from "lucide-react";
 
 interface DataImportProps {
@@ -161,6 +162,13 @@ export function DataImport({ schema, source: existingSource, onComplete }: DataI
       clearInterval(interval);
       setProgress(100);
 
+      reportAuditEvent({
+        action: "data.imported",
+        targetType: "data_source",
+        targetId: updatedSource.id,
+        metadata: { name: updatedSource.name, schemaId: schema.id, fileType, records: dataset.data.length },
+      });
+
       toast({
         title: "Import Successful",
         description: `Imported ${dataset.data.length} records successfully.`,
@@ -0,0 +1,57 @@
+import { Fragment, type ReactNode } from "react";
+import { FileJson, FileSpreadsheet, FileText } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getExportUrl } from "@/lib/ml-api";
+import type { ExportEntity, ExportFormat, ExportQueryParams } from "@shared/schema";
+
+const FORMATS: { format: ExportFormat; label: string; icon: typeof FileText }[] = [
+  { format: "csv", label: "CSV", icon: FileText },
+  { format: "xlsx", label: "Excel (XLSX)", icon: FileSpreadsheet },
+  { format: "ndjson", label: "NDJSON", icon: FileJson },
+];
+
+export interface ExportOption {
+  entity: ExportEntity;
+  // Shown above the formats when the menu offers more than one export
+  label: string;
+  query?: Omit<ExportQueryParams, "format">;
+}
+
+interface ExportMenuProps {
+  exports: ExportOption[];
+  // The button that opens the menu
+  children: ReactNode;
+}
+
+// Download links for server-side exports, one per format. The browser downloads the file
+// directly, so it holds every matching row rather than what the page has loaded.
+export function ExportMenu({ exports, children }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {exports.map(({ entity, label, query }, index) => (
+          <Fragment key={entity}>
+            {index > 0 && <DropdownMenuSeparator />}
+            {exports.length > 1 && <DropdownMenuLabel>{label}</DropdownMenuLabel>}
+            {FORMATS.map(({ format, label: formatLabel, icon: Icon }) => (
+              <DropdownMenuItem key={format} asChild className="cursor-pointer">
+                <a href={getExportUrl(entity, { ...query, format })} download>
+                  <Icon className="h-4 w-4 mr-2" />
+                  {formatLabel}
+                </a>
+              </DropdownMenuItem>
+            ))}
+          </Fragment>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -6,9 +7,14 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, BarChart, Bar, XAxis, YAxis, CartesianGrid } from "recharts";
 import { TrendingUp, Users, Eye, Mail, RefreshCw, Download, Zap, AlertTriangle, Target } from "lucide-react";
-import { getCustomersWithPredictions, getCLVPredictions, generateAllPredictions, refreshAllData } from "@/lib/ml-api";
+import { getCustomersWithPredictions, countCustomers, getCLVPredictions, generateCLVPredictions, refreshAllData } from "@/lib/ml-api";
+import { describeError } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useJob } from "@/hooks/use-job";
 import { useColorPalette } from "@/hooks/use-color-palette";
+import { useAuth } from "@/contexts/auth-context";
+import { ExportMenu } from "@/components/export-menu";
+import { ChurnSparkline } from "./ChurnSparkline";
 
 interface CLVPredictionProps {
   period: string;
@@ -19,12 +25,30 @@ export function CLVPrediction({ period, detailed = false }: CLVPredictionProps)
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const { getChartColors } = useColorPalette();
+  const { can } = useAuth();
 
-  const { data: customers, isLoading: customersLoading } = useQuery({
-    queryKey: ["/api/customers", { predictions: true, period }],
-    queryFn: () => getCustomersWithPredictions(50, 0),
+  const topLimit = detailed ? 10 : 5;
+
+  const { data: customersPage, isLoading: customersLoading } = useQuery({
+    queryKey: ["/api/customers", { predictions: true, sortBy: "predictedCLV", limit: topLimit, period }],
+    queryFn: () => getCustomersWithPredictions({ sortBy: "predictedCLV", sortOrder: "desc", limit: topLimit }),
   });
 
+  // Segment sizes by current CLV (total spent) across every customer
+  const { data: clvSegments, isLoading: segmentsLoading } = useQuery({
+    queryKey: ["/api/customers", { segments: "clv", period }],
+    queryFn: async () => {
+      const [high, medium, low] = await Promise.all([
+        countCustomers({ minSpent: 2000 }),
+        countCustomers({ minSpent: 500, maxSpent: 1999.99 }),
+        countCustomers({ maxSpent: 499.99 }),
+      ]);
+      return { high, medium, low };
+    },
+  });
+
+  const customers = customersPage?.data;
+
   const { data: clvPredictions, isLoading: predictionsLoading } = useQuery({
     queryKey: ["/api/predictions/clv", period],
     queryFn: () => getCLVPredictions(),
@@ -40,58 +64,50 @@ export function CLVPrediction({ period, detailed = false }: CLVPredictionProps)
         description: "CLV predictions have been updated with latest data.",
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Refresh Failed",
-        description: "Unable to refresh data. Please try again.",
+        description: describeError(error, "Unable to refresh data. Please try again."),
         variant: "destructive",
       });
     },
   });
 
-  const generateMutation = useMutation({
-    mutationFn: generateAllPredictions,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/predictions/clv"] });
+  // Generation runs as a background job; the button tracks it until it finishes
+  const [generationJobId, setGenerationJobId] = useState<number | null>(null);
+  const generationJob = useJob(generationJobId, (job) => {
+    setGenerationJobId(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/predictions/clv"] });
+
+    const result = job.result && 'averageCLV' in job.result ? job.result : null;
+    if (job.status === 'succeeded' && result) {
       toast({
         title: "Predictions Generated",
-        description: "New CLV predictions have been generated successfully.",
+        description: `Predicted lifetime value for ${result.customers} customers.`,
       });
-    },
-    onError: () => {
+    } else if (job.status === 'failed') {
       toast({
         title: "Generation Failed",
-        description: "Unable to generate predictions. Please try again.",
+        description: job.error ?? "Unable to generate predictions. Please try again.",
         variant: "destructive",
       });
-    },
+    }
   });
 
-  const handleExport = () => {
-    if (!customers) return;
-    
-    const csvContent = "data:text/csv;charset=utf-8," + 
-      "Customer,Email,Current CLV,Predicted CLV,Confidence\n" +
-      customers.map(c => 
-        `${c.name},${c.email},${c.totalSpent},${c.predictedCLV || 'N/A'},${c.clvPrediction?.confidence || 'N/A'}`
-      ).join("\n");
-
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", "clv_predictions.csv");
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-
-    toast({
-      title: "Export Complete",
-      description: "CLV predictions exported successfully.",
-    });
-  };
+  const generateMutation = useMutation({
+    mutationFn: () => generateCLVPredictions(),
+    onSuccess: (job) => setGenerationJobId(job.id),
+    onError: (error) => {
+      toast({
+        title: "Generation Failed",
+        description: describeError(error, "Unable to generate predictions. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
 
-  if (customersLoading || predictionsLoading) {
+  if (customersLoading || segmentsLoading || predictionsLoading) {
     return (
       <Card>
         <CardHeader>
@@ -111,7 +127,7 @@ export function CLVPrediction({ period, detailed = false }: CLVPredictionProps)
     );
   }
 
-  if (!customers || customers.length === 0) {
+  if (!customers || !clvSegments || customersPage?.total === 0) {
     return (
       <Card>
         <CardHeader>
@@ -128,13 +144,6 @@ export function CLVPrediction({ period, detailed = false }: CLVPredictionProps)
     );
   }
 
-  const clvSegments = customers.reduce((acc, customer) => {
-    const clv = customer.predictedCLV || parseFloat(customer.totalSpent);
-    if (clv >= 2000) acc.high++;
-    else if (clv >= 500) acc.medium++;
-    else acc.low++;
-    return acc;
-  }, { high: 0, medium: 0, low: 0 });
 
   const chartColors = getChartColors();
   const pieData = [
@@ -149,10 +158,8 @@ export function CLVPrediction({ period, detailed = false }: CLVPredictionProps)
     { segment: 'Low Value', count: clvSegments.low, avgCLV: 300 },
   ];
 
-  const topCLVCustomers = customers
-    .filter(customer => customer.predictedCLV || customer.churnPrediction)
-    .sort((a, b) => (b.predictedCLV || 0) - (a.predictedCLV || 0))
-    .slice(0, detailed ? 10 : 5);
+  // Already sorted by predicted CLV and limited by the API
+  const topCLVCustomers = customers;
 
   const modelAccuracy = clvPredictions && clvPredictions.length > 0 
     ? clvPredictions.reduce((sum, p) => sum + parseFloat(p.confidence || '0'), 0) / clvPredictions.length
@@ -182,27 +189,27 @@ export function CLVPrediction({ period, detailed = false }: CLVPredictionProps)
                   )}
                   Refresh
                 </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => generateMutation.mutate()}
-                  disabled={generateMutation.isPending}
-                >
-                  {generateMutation.isPending ? (
-                    <Zap className="h-4 w-4 animate-pulse" />
-                  ) : (
-                    <Zap className="h-4 w-4" />
-                  )}
-                  Generate
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleExport}
-                >
-                  <Download className="h-4 w-4" />
-                  Export
-                </Button>
+                {can("predictions:generate") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => generateMutation.mutate()}
+                    disabled={generateMutation.isPending || generationJobId !== null}
+                  >
+                    {generateMutation.isPending || generationJobId !== null ? (
+                      <Zap className="h-4 w-4 animate-pulse" />
+                    ) : (
+                      <Zap className="h-4 w-4" />
+                    )}
+                    {generationJobId !== null ? `Generating ${generationJob?.progress ?? 0}%` : "Generate"}
+                  </Button>
+                )}
+                <ExportMenu exports={[{ entity: "customers", label: "Customers" }]}>
+                  <Button variant="outline" size="sm">
+                    <Download className="h-4 w-4" />
+                    Export
+                  </Button>
+                </ExportMenu>
               </div>
             </div>
           </div>
@@ -396,6 +403,7 @@ export function CLVPrediction({ period, detailed = false }: CLVPredictionProps)
                     <TableHead className="text-right">Current CLV</TableHead>
                     <TableHead className="text-right">Predicted CLV</TableHead>
                     <TableHead className="text-center">Confidence</TableHead>
+                    <TableHead className="text-center">Churn Trend</TableHead>
                     <TableHead className="text-center">Segment</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
@@ -438,6 +446,9 @@ export function CLVPrediction({ period, detailed = false }: CLVPredictionProps)
                           }
                         </Badge>
                       </TableCell>
+                      <TableCell className="text-center">
+                        <ChurnSparkline customerId={customer.id} />
+                      </TableCell>
                       <TableCell className="text-center">
                         <Badge
                           variant="outline"
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -5,10 +6,15 @@ import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar } from "recharts";
 import { AlertTriangle, Users, Mail, Clock, TrendingDown, RefreshCw, Download, Bell, Zap } from "lucide-react";
-import { getCustomersWithPredictions, getChurnPredictions, analyzeChurnRisk, refreshAllData } from "@/lib/ml-api";
+import { getCustomersWithPredictions, countCustomers, getChurnPredictions, analyzeChurnRisk, refreshAllData } from "@/lib/ml-api";
+import { describeError } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useJob } from "@/hooks/use-job";
 import { useColorPalette } from "@/hooks/use-color-palette";
+import { useAuth } from "@/contexts/auth-context";
 import { useDomain } from "@/contexts/domain-context";
+import { ExportMenu } from "@/components/export-menu";
+import { ChurnSparkline } from "./ChurnSparkline";
 
 interface ChurnAnalysisProps {
   period: string;
@@ -19,6 +25,7 @@ export function ChurnAnalysis({ period, detailed = false }: ChurnAnalysisProps)
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const { getChartColors } = useColorPalette();
+  const { can } = useAuth();
   const { domainConfig, getEntityLabel } = useDomain();
 
   // Get domain-specific terminology
@@ -27,11 +34,33 @@ export function ChurnAnalysis({ period, detailed = false }: ChurnAnalysisProps)
   const churnModel = domainConfig.models.find(m => m.id.includes('churn') || m.id.includes('dropout') || m.id.includes('readmission'));
   const churnLabel = churnModel?.outputs.find(o => o.id.includes('risk'))?.label || 'Risk Score';
 
-  const { data: customers, isLoading: customersLoading } = useQuery({
-    queryKey: ["/api/customers", { predictions: true, period }],
-    queryFn: () => getCustomersWithPredictions(100, 0),
+  const highRiskLimit = detailed ? 15 : 5;
+
+  const { data: highRiskPage, isLoading: customersLoading } = useQuery({
+    queryKey: ["/api/customers", { predictions: true, churnRisk: "high", limit: highRiskLimit, period }],
+    queryFn: () => getCustomersWithPredictions({
+      churnRisk: "high",
+      sortBy: "churnRiskScore",
+      sortOrder: "desc",
+      limit: highRiskLimit,
+    }),
   });
 
+  const { data: churnSegments, isLoading: segmentsLoading } = useQuery({
+    queryKey: ["/api/customers", { segments: "churn", period }],
+    queryFn: async () => {
+      const [high, medium, low] = await Promise.all([
+        countCustomers({ churnRisk: "high" }),
+        countCustomers({ churnRisk: "medium" }),
+        countCustomers({ churnRisk: "low" }),
+      ]);
+      return { high, medium, low };
+    },
+  });
+
+  // Already filtered to high risk, sorted by churn score and limited by the API
+  const highRiskCustomers = highRiskPage?.data ?? [];
+
   const { data: churnPredictions, isLoading: predictionsLoading } = useQuery({
     queryKey: ["/api/predictions/churn", period],
     queryFn: () => getChurnPredictions(),
@@ -48,29 +77,44 @@ export function ChurnAnalysis({ period, detailed = false }: ChurnAnalysisProps)
         description: "Churn analysis has been updated with latest data.",
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Refresh Failed",
-        description: "Unable to refresh churn data. Please try again.",
+        description: describeError(error, "Unable to refresh churn data. Please try again."),
         variant: "destructive",
       });
     },
   });
 
-  // Mutation for analyzing churn risk
-  const analyzeMutation = useMutation({
-    mutationFn: analyzeChurnRisk,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/predictions/churn"] });
+  // Analysis runs as a background job; the button tracks it until it finishes
+  const [analysisJobId, setAnalysisJobId] = useState<number | null>(null);
+  const analysisJob = useJob(analysisJobId, (job) => {
+    setAnalysisJobId(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/predictions/churn"] });
+
+    const result = job.result && 'newlyHighRisk' in job.result ? job.result : null;
+    if (job.status === 'succeeded' && result) {
       toast({
         title: "Analysis Complete",
-        description: "Churn risk analysis has been completed successfully.",
+        description: `Scored ${result.customers} ${entityNamePlural.toLowerCase()}; ${result.newlyHighRisk} newly at high risk.`,
       });
-    },
-    onError: () => {
+    } else if (job.status === 'failed') {
+      toast({
+        title: "Analysis Failed",
+        description: job.error ?? "Unable to analyze churn risk. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const analyzeMutation = useMutation({
+    mutationFn: analyzeChurnRisk,
+    onSuccess: (job) => setAnalysisJobId(job.id),
+    onError: (error) => {
       toast({
         title: "Analysis Failed",
-        description: "Unable to analyze churn risk. Please try again.",
+        description: describeError(error, "Unable to analyze churn risk. Please try again."),
         variant: "destructive",
       });
     },
@@ -78,11 +122,9 @@ export function ChurnAnalysis({ period, detailed = false }: ChurnAnalysisProps)
 
   // Alert high-risk customers
   const handleAlert = () => {
-    if (!customers) return;
-    
-    const highRiskCustomers = customers.filter(c => c.churnRisk === 'high');
+    if (!churnSegments) return;
     
-    if (highRiskCustomers.length === 0) {
+    if (churnSegments.high === 0) {
       toast({
         title: "No High-Risk Customers",
         description: "No customers currently at high risk of churning.",
@@ -92,50 +134,11 @@ export function ChurnAnalysis({ period, detailed = false }: ChurnAnalysisProps)
 
     toast({
       title: "Alert Triggered",
-      description: `Alerts sent for ${highRiskCustomers.length} high-risk customers.`,
+      description: `Alerts sent for ${churnSegments.high} high-risk customers.`,
     });
   };
 
-  // Export churn data
-  const handleExport = () => {
-    if (!customers || customers.length === 0) {
-      toast({
-        title: "No Data",
-        description: "No customer data available to export.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    const csvData = customers.map(customer => ({
-      name: customer.name,
-      email: customer.email,
-      churnRisk: customer.churnRisk,
-      churnScore: customer.churnRiskScore || 'N/A',
-      lastPurchase: customer.lastPurchaseDate || 'N/A',
-      segment: customer.segment,
-      totalSpent: customer.totalSpent
-    }));
-
-    const csvContent = "data:text/csv;charset=utf-8," + 
-      "Name,Email,Churn Risk,Churn Score,Last Purchase,Segment,Total Spent\n" +
-      csvData.map(row => Object.values(row).join(",")).join("\n");
-
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", "churn_analysis.csv");
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-
-    toast({
-      title: "Export Complete",
-      description: "Churn analysis data exported successfully.",
-    });
-  };
-
-  if (customersLoading || predictionsLoading) {
+  if (customersLoading || segmentsLoading || predictionsLoading) {
     return (
       <Card>
         <CardHeader>
@@ -155,7 +158,7 @@ export function ChurnAnalysis({ period, detailed = false }: ChurnAnalysisProps)
     );
   }
 
-  if (!customers || customers.length === 0) {
+  if (!churnSegments || churnSegments.high + churnSegments.medium + churnSegments.low === 0) {
     return (
       <Card>
         <CardHeader>
@@ -172,18 +175,6 @@ export function ChurnAnalysis({ period, detailed = false }: ChurnAnalysisProps)
     );
   }
 
-  // Process churn risk data
-  const churnSegments = customers.reduce((acc, customer) => {
-    const risk = customer.churnRisk || 'low';
-    acc[risk as keyof typeof acc]++;
-    return acc;
-  }, { high: 0, medium: 0, low: 0 });
-
-  const highRiskCustomers = customers
-    .filter(customer => customer.churnRisk === 'high' || (customer.churnRiskScore && customer.churnRiskScore > 0.7))
-    .sort((a, b) => (b.churnRiskScore || 0) - (a.churnRiskScore || 0))
-    .slice(0, detailed ? 15 : 5);
-
   // Generate trend data for the chart
   const trendData = Array.from({ length: 4 }, (_, i) => ({
     week: `Week ${i + 1}`,
@@ -223,6 +214,21 @@ export function ChurnAnalysis({ period, detailed = false }: ChurnAnalysisProps)
               <Badge variant="secondary" className="bg-blue-100 text-blue-800">
                 Last Updated: 2 hours ago
               </Badge>
+              {can("predictions:generate") && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => analyzeMutation.mutate()}
+                  disabled={analyzeMutation.isPending || analysisJobId !== null}
+                >
+                  {analyzeMutation.isPending || analysisJobId !== null ? (
+                    <Zap className="h-4 w-4 animate-pulse" />
+                  ) : (
+                    <Zap className="h-4 w-4" />
+                  )}
+                  {analysisJobId !== null ? `Analyzing ${analysisJob?.progress ?? 0}%` : "Analyze"}
+                </Button>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -382,6 +388,12 @@ export function ChurnAnalysis({ period, detailed = false }: ChurnAnalysisProps)
                 <Bell className="h-4 w-4 mr-2" />
                 Send Alerts
               </Button>
+              <ExportMenu exports={[{ entity: "customers", label: `High-Risk ${entityNamePlural}`, query: { churnRisk: "high" } }]}>
+                <Button size="sm" variant="outline">
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
+              </ExportMenu>
             </div>
           </div>
         </CardHeader>
@@ -398,6 +410,7 @@ export function ChurnAnalysis({ period, detailed = false }: ChurnAnalysisProps)
                   <TableRow>
                     <TableHead>{entityNameSingular}</TableHead>
                     <TableHead className="text-center">{churnLabel}</TableHead>
+                    <TableHead className="text-center">Trend</TableHead>
                     <TableHead className="text-center">Last Activity</TableHead>
                     <TableHead className="text-right">Value at Risk</TableHead>
                     <TableHead className="text-center">Category</TableHead>
@@ -433,6 +446,9 @@ export function ChurnAnalysis({ period, detailed = false }: ChurnAnalysisProps)
                             {(riskScore * 100).toFixed(0)}%
                           </Badge>
                         </TableCell>
+                        <TableCell className="text-center">
+                          <ChurnSparkline customerId={customer.id} />
+                        </TableCell>
                         <TableCell className="text-center">
                           <div className="flex items-center justify-center gap-1">
                             <Clock className="h-4 w-4 text-gray-400" />
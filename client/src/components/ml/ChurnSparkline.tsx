@@ -0,0 +1,47 @@
+import { useQuery } from "@tanstack/react-query";
+import { LineChart, Line, YAxis } from "recharts";
+import { getCustomerPredictionHistory } from "@/lib/ml-api";
+
+// Churn scores drawn, oldest to newest
+const HISTORY_POINTS = 30;
+
+interface ChurnSparklineProps {
+  customerId: number;
+  className?: string;
+}
+
+// The customer's churn score over its stored prediction history, expired scores included
+export function ChurnSparkline({ customerId, className = "text-theme-danger" }: ChurnSparklineProps) {
+  const { data: history = [], isLoading } = useQuery({
+    queryKey: ["/api/customers", customerId, "predictions/history", { type: "churn", limit: HISTORY_POINTS }],
+    queryFn: () => getCustomerPredictionHistory(customerId, { type: "churn", limit: HISTORY_POINTS }),
+  });
+
+  if (isLoading) {
+    return <div className="h-7 w-20 mx-auto bg-muted rounded animate-pulse" />;
+  }
+  if (history.length < 2) {
+    return <span className="text-xs text-muted-foreground">—</span>;
+  }
+
+  const points = history
+    .map((prediction) => ({
+      date: new Date(prediction.createdAt),
+      score: parseFloat(prediction.predictedValue || '0'),
+    }))
+    .reverse();
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  return (
+    <div
+      className={`inline-block ${className}`}
+      title={`${(first.score * 100).toFixed(0)}% on ${first.date.toLocaleDateString()} → ${(last.score * 100).toFixed(0)}% on ${last.date.toLocaleDateString()}`}
+    >
+      <LineChart width={80} height={28} data={points}>
+        <YAxis hide domain={[0, 1]} />
+        <Line type="monotone" dataKey="score" stroke="currentColor" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+      </LineChart>
+    </div>
+  );
+}
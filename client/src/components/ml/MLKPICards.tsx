@@ -3,6 +3,7 @@ import { Badge } from "@/components/ui/badge";
 import { DollarSign, Users, AlertTriangle, TrendingUp, Target, Star, Activity } from "lucide-react";
 import { useColorPalette } from "@/hooks/use-color-palette";
 import { useDomain } from "@/contexts/domain-context";
+import { formatConfidence } from "@/lib/ml-api";
 import type { DashboardMetrics } from "@shared/schema";
 
 interface MLKPICardsProps {
@@ -52,6 +53,18 @@ export function MLKPICards({ metrics }: MLKPICardsProps) {
     }
   };
 
+  // Backtested accuracy of the model behind a derived card, or an unknown state before any evaluation
+  const modelAccuracy = (accuracy: number | null) => {
+    const { lastUpdate } = metrics.modelMetrics;
+    if (accuracy === null || !lastUpdate) {
+      return { badge: "Accuracy unknown", evaluatedAt: "Model not evaluated yet" };
+    }
+    return {
+      badge: `${formatConfidence(accuracy)} accuracy`,
+      evaluatedAt: `Evaluated ${new Date(lastUpdate).toLocaleDateString()}`,
+    };
+  };
+
   const kpiCards = [
     // Primary Metrics
     ...primaryMetrics.map((metric, idx) => ({
@@ -68,18 +81,21 @@ export function MLKPICards({ metrics }: MLKPICardsProps) {
       description: metric.description
     })),
     // Derived Metrics
-    ...derivedMetrics.map((metric, idx) => ({
-      title: metric.label,
-      value: idx === 0
-        ? formatValue(metrics.avgCLV, metric.type)
-        : formatValue(metrics.churnRiskPercentage, metric.type),
-      change: idx === 0 ? "95% confidence" : `${Math.round((metrics.churnRiskPercentage / 100) * metrics.totalCustomers)} at risk`,
-      changeType: idx === 0 ? "neutral" as const : "negative" as const,
-      icon: getIcon(metric.icon),
-      bgColor: idx === 0 ? "bg-theme-accent" : "bg-theme-danger",
-      badge: "ML Predicted",
-      badgeColor: idx === 0 ? "bg-theme-accent" : "bg-theme-danger"
-    }))
+    ...derivedMetrics.map((metric, idx) => {
+      const accuracy = modelAccuracy(idx === 0 ? metrics.modelMetrics.clvAccuracy : metrics.modelMetrics.churnAccuracy);
+      return {
+        title: metric.label,
+        value: idx === 0
+          ? formatValue(metrics.avgCLV, metric.type)
+          : formatValue(metrics.churnRiskPercentage, metric.type),
+        change: accuracy.evaluatedAt,
+        changeType: idx === 0 ? "neutral" as const : "negative" as const,
+        icon: getIcon(metric.icon),
+        bgColor: idx === 0 ? "bg-theme-accent" : "bg-theme-danger",
+        badge: accuracy.badge,
+        badgeColor: idx === 0 ? "bg-theme-accent" : "bg-theme-danger"
+      };
+    })
   ];
 
   return (
@@ -93,9 +109,12 @@ export function MLKPICards({ metrics }: MLKPICardsProps) {
                 <p className="text-2xl font-bold text-foreground mt-1">{card.value}</p>
                 <div className="mt-2">
                   {card.badge ? (
-                    <Badge className={`text-xs text-white ${card.badgeColor}`}>
-                      {card.badge}
-                    </Badge>
+                    <>
+                      <Badge className={`text-xs text-white ${card.badgeColor}`}>
+                        {card.badge}
+                      </Badge>
+                      <p className="text-xs text-muted-foreground mt-1">{card.change}</p>
+                    </>
                   ) : (
                     <p className={`text-sm flex items-center ${
                       card.changeType === 'positive' ? 'text-theme-success' :
@@ -7,9 +7,11 @@ import { Progress } from "@/components/ui/progress";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { TrendingUp, Package, ArrowUpRight, Target, ShoppingCart, DollarSign, RefreshCw, Download, Zap } from "lucide-react";
 import { getProductRecommendations, generateProductRecommendations, formatCurrency, formatPercentage, refreshAllData } from "@/lib/ml-api";
+import { describeError } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useColorPalette } from "@/hooks/use-color-palette";
-import type { ProductRecommendation } from "@shared/schema";
+import { useAuth } from "@/contexts/auth-context";
+import { ExportMenu } from "@/components/export-menu";
 
 interface ProductRecommendationsProps {
   category: string;
@@ -20,11 +22,16 @@ export function ProductRecommendations({ category, detailed = false }: ProductRe
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const { getChartColors } = useColorPalette();
+  const { can } = useAuth();
 
-  const { data: recommendations = [], isLoading, error } = useQuery({
+  const { data: recommendationsPage, isLoading, error } = useQuery({
     queryKey: ['/api/recommendations/products', category],
-    queryFn: () => getProductRecommendations(),
+    queryFn: () => getProductRecommendations({
+      category: category === "all" ? undefined : category,
+      limit: 500,
+    }),
   });
+  const recommendations = recommendationsPage?.data ?? [];
 
   // Mutation for refreshing recommendations
   const refreshMutation = useMutation({
@@ -36,10 +43,10 @@ export function ProductRecommendations({ category, detailed = false }: ProductRe
         description: "Product recommendations have been updated with latest data.",
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Refresh Failed",
-        description: "Unable to refresh recommendations. Please try again.",
+        description: describeError(error, "Unable to refresh recommendations. Please try again."),
         variant: "destructive",
       });
     },
@@ -55,54 +62,15 @@ export function ProductRecommendations({ category, detailed = false }: ProductRe
         description: "New product recommendations have been generated successfully.",
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Generation Failed",
-        description: "Unable to generate recommendations. Please try again.",
+        description: describeError(error, "Unable to generate recommendations. Please try again."),
         variant: "destructive",
       });
     },
   });
 
-  // Export recommendations
-  const handleExport = () => {
-    if (!recommendations || recommendations.length === 0) {
-      toast({
-        title: "No Data",
-        description: "No recommendation data available to export.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    const csvData = recommendations.map(rec => ({
-      productId: rec.productId,
-      recommendedProductId: rec.recommendedProductId,
-      type: rec.recommendationType,
-      confidence: rec.confidence,
-      support: rec.support || 'N/A',
-      lift: rec.lift || 'N/A',
-      coOccurrence: rec.coOccurrenceCount
-    }));
-
-    const csvContent = "data:text/csv;charset=utf-8," + 
-      "Product ID,Recommended Product ID,Type,Confidence,Support,Lift,Co-occurrence\n" +
-      csvData.map(row => Object.values(row).join(",")).join("\n");
-
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", "product_recommendations.csv");
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-
-    toast({
-      title: "Export Complete",
-      description: "Product recommendations exported successfully.",
-    });
-  };
-
   if (isLoading) {
     return (
       <Card>
@@ -168,27 +136,29 @@ export function ProductRecommendations({ category, detailed = false }: ProductRe
                 )}
                 Refresh
               </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => generateMutation.mutate()}
-                disabled={generateMutation.isPending}
+              {can("recommendations:generate") && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => generateMutation.mutate()}
+                  disabled={generateMutation.isPending}
+                >
+                  {generateMutation.isPending ? (
+                    <Zap className="h-4 w-4 animate-pulse" />
+                  ) : (
+                    <Zap className="h-4 w-4" />
+                  )}
+                  Generate
+                </Button>
+              )}
+              <ExportMenu
+                exports={[{ entity: "recommendations", label: "Recommendations", query: { category: category === "all" ? undefined : category } }]}
               >
-                {generateMutation.isPending ? (
-                  <Zap className="h-4 w-4 animate-pulse" />
-                ) : (
-                  <Zap className="h-4 w-4" />
-                )}
-                Generate
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleExport}
-              >
-                <Download className="h-4 w-4" />
-                Export
-              </Button>
+                <Button variant="outline" size="sm">
+                  <Download className="h-4 w-4" />
+                  Export
+                </Button>
+              </ExportMenu>
             </div>
           </div>
         </CardHeader>
@@ -209,7 +179,7 @@ export function ProductRecommendations({ category, detailed = false }: ProductRe
               {recommendations.slice(0, 3).map((rec, index) => (
                 <div key={index} className="flex items-center justify-between p-3 bg-theme-neutral/5 rounded-lg border border-theme-neutral/10">
                   <div>
-                    <p className="font-medium">Product {rec.productId} → Product {rec.recommendedProductId}</p>
+                    <p className="font-medium">{rec.productName} → {rec.recommendedProductName}</p>
                     <p className="text-sm text-muted-foreground">{rec.recommendationType.replace('_', '-')} opportunity</p>
                   </div>
                   <Badge variant={rec.recommendationType === 'cross_sell' ? 'default' : 'secondary'}>
@@ -225,7 +195,7 @@ export function ProductRecommendations({ category, detailed = false }: ProductRe
   }
 
   const chartData = recommendations.slice(0, 10).map(rec => ({
-    name: `P${rec.productId} → P${rec.recommendedProductId}`,
+    name: `${rec.productName} → ${rec.recommendedProductName}`,
     confidence: parseFloat(rec.confidence) * 100,
     type: rec.recommendationType,
   }));
@@ -259,7 +229,7 @@ export function ProductRecommendations({ category, detailed = false }: ProductRe
                       <ShoppingCart className="h-4 w-4 text-blue-500" />
                       <span className="text-sm font-medium">Total Recommendations</span>
                     </div>
-                    <div className="text-2xl font-bold">{recommendations.length}</div>
+                    <div className="text-2xl font-bold">{recommendationsPage?.total ?? 0}</div>
                   </CardContent>
                 </Card>
                 <Card>
@@ -313,7 +283,7 @@ export function ProductRecommendations({ category, detailed = false }: ProductRe
                     <CardContent className="p-4">
                       <div className="flex items-center justify-between">
                         <div>
-                          <h4 className="font-medium">Product {rec.productId} → Product {rec.recommendedProductId}</h4>
+                          <h4 className="font-medium">{rec.productName} → {rec.recommendedProductName}</h4>
                           <p className="text-sm text-muted-foreground">Cross-sell opportunity</p>
                         </div>
                         <div className="text-right">
@@ -337,7 +307,7 @@ export function ProductRecommendations({ category, detailed = false }: ProductRe
                     <CardContent className="p-4">
                       <div className="flex items-center justify-between">
                         <div>
-                          <h4 className="font-medium">Product {rec.productId} → Product {rec.recommendedProductId}</h4>
+                          <h4 className="font-medium">{rec.productName} → {rec.recommendedProductName}</h4>
                           <p className="text-sm text-muted-foreground">Up-sell opportunity</p>
                         </div>
                         <div className="text-right">
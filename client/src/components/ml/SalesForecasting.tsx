@@ -4,7 +4,7 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Area, AreaChart } from "recharts";
 import { TrendingUp, BarChart3, Target, Calendar } from "lucide-react";
-import { getSalesForecast, getSalesMetrics } from "@/lib/ml-api";
+import { getSalesForecast, getSalesMetrics, formatConfidence } from "@/lib/ml-api";
 import { useState } from "react";
 import { useColorPalette } from "@/hooks/use-color-palette";
 
@@ -72,7 +72,7 @@ export function SalesForecasting({ period, detailed = false }: SalesForecastingP
       predicted: null,
       type: 'historical'
     })),
-    ...forecastData.forecast.map((forecast: any) => ({
+    ...forecastData.forecast.map(forecast => ({
       date: new Date(forecast.date).toLocaleDateString(),
       actual: null,
       predicted: forecast.predicted_revenue,
@@ -82,7 +82,7 @@ export function SalesForecasting({ period, detailed = false }: SalesForecastingP
     }))
   ];
 
-  const totalPredictedRevenue = forecastData.forecast.reduce((sum: number, f: any) => sum + f.predicted_revenue, 0);
+  const totalPredictedRevenue = forecastData.forecast.reduce((sum, f) => sum + f.predicted_revenue, 0);
   const avgDailyRevenue = salesMetrics.slice(-30).reduce((sum, metric) => sum + parseFloat(metric.revenue), 0) / 30;
   const growthRate = ((totalPredictedRevenue / parseInt(forecastDays) - avgDailyRevenue) / avgDailyRevenue) * 100;
 
@@ -116,7 +116,7 @@ export function SalesForecasting({ period, detailed = false }: SalesForecastingP
                 </SelectContent>
               </Select>
               <Badge variant="secondary" className="bg-blue-100 text-blue-800">
-                RMSE: ${forecastData.modelMetrics?.rmse?.toLocaleString() || '12.3K'}
+                RMSE: {forecastData.modelMetrics?.rmse != null ? `$${forecastData.modelMetrics.rmse.toLocaleString()}` : 'Unknown'}
               </Badge>
             </div>
           </div>
@@ -179,9 +179,13 @@ export function SalesForecasting({ period, detailed = false }: SalesForecastingP
             <div className="p-3 bg-purple-50 dark:bg-purple-950/30 rounded-lg">
               <p className="text-sm text-muted-foreground">Confidence</p>
               <p className="text-lg font-bold text-purple-600 dark:text-purple-400">
-                {(forecastData.confidence * 100).toFixed(0)}%
+                {forecastData.confidence != null ? formatConfidence(forecastData.confidence) : 'Unknown'}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {forecastData.modelMetrics
+                  ? `Evaluated ${new Date(forecastData.modelMetrics.evaluatedAt).toLocaleDateString()}`
+                  : 'Model not evaluated yet'}
               </p>
-              <p className="text-xs text-muted-foreground">Model accuracy</p>
             </div>
           </div>
         </CardContent>
@@ -258,19 +262,19 @@ export function SalesForecasting({ period, detailed = false }: SalesForecastingP
                 <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
                   <span className="text-sm font-medium text-foreground">R² Score</span>
                   <span className="text-sm font-bold text-blue-600 dark:text-blue-400">
-                    {forecastData.modelMetrics?.r2?.toFixed(2) || '0.89'}
+                    {forecastData.modelMetrics?.r2?.toFixed(2) ?? 'Unknown'}
                   </span>
                 </div>
                 <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
                   <span className="text-sm font-medium text-foreground">MAPE</span>
                   <span className="text-sm font-bold text-green-600 dark:text-green-400">
-                    {forecastData.modelMetrics?.mape?.toFixed(1) || '8.7'}%
+                    {forecastData.modelMetrics?.mape != null ? `${forecastData.modelMetrics.mape.toFixed(1)}%` : 'Unknown'}
                   </span>
                 </div>
                 <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
                   <span className="text-sm font-medium text-foreground">RMSE</span>
                   <span className="text-sm font-bold text-purple-600 dark:text-purple-400">
-                    ${forecastData.modelMetrics?.rmse?.toLocaleString() || '12,300'}
+                    {forecastData.modelMetrics?.rmse != null ? `$${forecastData.modelMetrics.rmse.toLocaleString()}` : 'Unknown'}
                   </span>
                 </div>
 
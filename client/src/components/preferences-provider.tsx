@@ -1,5 +1,6 @@
-import { createContext, useContext, useEffect, useState, useCallback } from "react";
+import { createContext, useContext, useEffect, useState, useCallback, useRef } from "react";
 import { UserPreferences, DEFAULT_PREFERENCES, COLOR_PALETTES } from "@/lib/preferences";
+import { reportAuditEvent } from "@/lib/ml-api";
 
 type PreferencesContextType = {
   preferences: UserPreferences;
@@ -15,6 +16,9 @@ type PreferencesContextType = {
 const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
 
 const STORAGE_KEY = "commerce-dashboard-preferences";
+// Changes are reported to the audit log once they settle, so flipping through
+// several options records one event
+const AUDIT_DELAY_MS = 2000;
 
 export function PreferencesProvider({ children }: { children: React.ReactNode }) {
   const [preferences, setPreferences] = useState<UserPreferences>(() => {
@@ -47,6 +51,21 @@ export function PreferencesProvider({ children }: { children: React.ReactNode })
     }
   }, [preferences]);
 
+  const auditedPreferences = useRef(preferences);
+  useEffect(() => {
+    if (preferences === auditedPreferences.current) return;
+    const timer = setTimeout(() => {
+      reportAuditEvent({
+        action: "settings.updated",
+        targetType: "preferences",
+        before: { ...auditedPreferences.current },
+        after: { ...preferences },
+      });
+      auditedPreferences.current = preferences;
+    }, AUDIT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [preferences]);
+
   // Apply color palette
   useEffect(() => {
     const palette = COLOR_PALETTES[preferences.display.colorPalette];
@@ -0,0 +1,34 @@
+import type { ComponentType } from "react";
+import { Route, Redirect } from "wouter";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/contexts/auth-context";
+
+interface ProtectedRouteProps {
+  path: string;
+  component: ComponentType<any>;
+}
+
+// Renders the route only for signed-in users, otherwise sends them to /auth
+export function ProtectedRoute({ path, component: Component }: ProtectedRouteProps) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {(params) => {
+        if (isLoading) {
+          return (
+            <div className="min-h-screen flex items-center justify-center">
+              <Loader2 className="h-8 w-8 animate-spin text-theme-primary" />
+            </div>
+          );
+        }
+
+        if (!user) {
+          return <Redirect to="/auth" />;
+        }
+
+        return <Component params={params} />;
+      }}
+    </Route>
+  );
+}
@@ -0,0 +1,323 @@
+/**
+ * Schedules Settings
+ * Recurring background jobs: when they run, pausing them, running them now and their history
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { queryClient, describeError } from "@/lib/queryClient";
+import { getSchedules, updateSchedule, runSchedule, getJobs } from "@/lib/ml-api";
+import { useToast } from "@/hooks/use-toast";
+import {
+  cronExpressionSchema,
+  type Job,
+  type JobStatus,
+  type Schedule,
+  type ScheduledJobType,
+  type UpdateSchedule,
+} from "@shared/schema";
+import { CalendarClock, Loader2, Play, History, Pencil } from "lucide-react";
+
+const SCHEDULES_QUERY_KEY = ['/api/schedules'];
+
+const JOB_LABELS: Record<ScheduledJobType, { title: string; description: string }> = {
+  refresh_expired_predictions: {
+    title: "Refresh expired predictions",
+    description: "Regenerates CLV and churn predictions past their expiry",
+  },
+  analyze_churn: {
+    title: "Churn analysis",
+    description: "Scores churn risk for every customer",
+  },
+  generate_recommendations: {
+    title: "Rebuild recommendations",
+    description: "Mines product recommendations from all orders",
+  },
+  compact_predictions: {
+    title: "Compact prediction history",
+    description: "Keeps one prediction per customer a day and drops history older than 180 days",
+  },
+};
+
+const STATUS_VARIANTS: Record<JobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "secondary",
+  running: "secondary",
+  succeeded: "default",
+  failed: "destructive",
+  cancelled: "outline",
+};
+
+const cronFormSchema = z.object({ cron: cronExpressionSchema });
+
+function historyQueryKey(scheduleId: number) {
+  return ['/api/jobs', { scheduleId }];
+}
+
+function formatDateTime(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function describeResult(job: Job): string {
+  if (job.status === 'failed') return job.error ?? "Failed";
+  if (job.status === 'running') return `${job.progress}%`;
+  const result = job.result;
+  if (!result) return "—";
+  if ('clv' in result) return `${result.clv} CLV and ${result.churn} churn predictions refreshed`;
+  if ('newlyHighRisk' in result) return `${result.customers} scored, ${result.newlyHighRisk} newly high risk`;
+  if ('byType' in result) return `${result.count} recommendations`;
+  if ('deleted' in result) return `${result.deleted} old predictions removed`;
+  if ('averageCLV' in result) return `${result.customers} CLV predictions`;
+  return `${result.modelTypes.length} models evaluated`;
+}
+
+export function SchedulesSettings() {
+  const [editing, setEditing] = useState<Schedule | null>(null);
+  const [viewing, setViewing] = useState<Schedule | null>(null);
+  const { toast } = useToast();
+
+  const { data: schedules = [], isLoading } = useQuery({
+    queryKey: SCHEDULES_QUERY_KEY,
+    queryFn: getSchedules,
+  });
+
+  const { data: runs = [], isLoading: runsLoading } = useQuery({
+    queryKey: historyQueryKey(viewing?.id ?? 0),
+    queryFn: () => getJobs({ scheduleId: viewing!.id, limit: 50 }),
+    enabled: viewing !== null,
+  });
+
+  const form = useForm<{ cron: string }>({
+    resolver: zodResolver(cronFormSchema),
+    defaultValues: { cron: "" },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, updates }: { id: number; updates: UpdateSchedule }) => updateSchedule(id, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SCHEDULES_QUERY_KEY });
+      setEditing(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Update Failed",
+        description: describeError(error, "Unable to update the schedule. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: runSchedule,
+    onSuccess: (job) => {
+      queryClient.invalidateQueries({ queryKey: SCHEDULES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      toast({
+        title: "Run Queued",
+        description: `Job #${job.id} will start as soon as the worker is free.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Run Failed",
+        description: describeError(error, "Unable to start the schedule. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditor = (schedule: Schedule) => {
+    form.reset({ cron: schedule.cron });
+    setEditing(schedule);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Scheduled Jobs
+          </CardTitle>
+          <CardDescription>
+            Keep predictions and recommendations fresh without anyone clicking Refresh. Times are in UTC.
+          </CardDescription>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Job</TableHead>
+                <TableHead>Schedule</TableHead>
+                <TableHead>Next Run</TableHead>
+                <TableHead>Last Run</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedules.map((schedule) => (
+                <TableRow key={schedule.id}>
+                  <TableCell>
+                    <div className="font-medium">{JOB_LABELS[schedule.jobType].title}</div>
+                    <div className="text-xs text-muted-foreground">{JOB_LABELS[schedule.jobType].description}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" className="font-mono text-xs" onClick={() => openEditor(schedule)}>
+                      {schedule.cron}
+                      <Pencil className="h-3 w-3 ml-2" />
+                    </Button>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {schedule.isActive ? formatDateTime(schedule.nextRunAt) : "Paused"}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{formatDateTime(schedule.lastRunAt)}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={schedule.isActive}
+                      disabled={updateMutation.isPending}
+                      onCheckedChange={(isActive) => updateMutation.mutate({ id: schedule.id, updates: { isActive } })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={runMutation.isPending && runMutation.variables === schedule.id}
+                        onClick={() => runMutation.mutate(schedule.id)}
+                      >
+                        {runMutation.isPending && runMutation.variables === schedule.id
+                          ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          : <Play className="h-4 w-4 mr-1" />}
+                        Run Now
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setViewing(schedule)}>
+                        <History className="h-4 w-4 mr-1" />
+                        History
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Edit Schedule Dialog */}
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing && JOB_LABELS[editing.jobType].title}</DialogTitle>
+            <DialogDescription>
+              Five fields: minute, hour, day of month, month and day of week, in UTC.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit(({ cron }) => editing && updateMutation.mutate({ id: editing.id, updates: { cron } }))}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="cron"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cron Expression</FormLabel>
+                    <FormControl>
+                      <Input className="font-mono" placeholder="0 2 * * *" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      For example <code>0 2 * * *</code> runs daily at 02:00 and <code>0 3 * * sun</code> every Sunday at 03:00.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="submit" disabled={updateMutation.isPending}>
+                  {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save Schedule
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Run History Dialog */}
+      <Dialog open={viewing !== null} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Run History</DialogTitle>
+            <DialogDescription>
+              {viewing && JOB_LABELS[viewing.jobType].title}
+            </DialogDescription>
+          </DialogHeader>
+          {runsLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              This schedule hasn't run yet
+            </p>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Queued</TableHead>
+                    <TableHead>Trigger</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Finished</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map((run) => (
+                    <TableRow key={run.id}>
+                      <TableCell className="whitespace-nowrap">{formatDateTime(run.createdAt)}</TableCell>
+                      <TableCell>{run.createdBy ? "Manual" : "Schedule"}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[run.status]}>{run.status}</Badge>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDateTime(run.finishedAt)}</TableCell>
+                      <TableCell className="text-xs max-w-[260px] truncate" title={describeResult(run)}>
+                        {describeResult(run)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
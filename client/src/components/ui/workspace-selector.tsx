@@ -0,0 +1,164 @@
+/**
+ * Workspace Selector Component
+ * Switches the storefront whose commerce data the dashboard shows
+ */
+
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Store, Check, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { queryClient } from '@/lib/queryClient';
+import { getWorkspaces, getCurrentWorkspace, switchWorkspace, createWorkspace } from '@/lib/ml-api';
+import { useAuth } from '@/contexts/auth-context';
+import { useToast } from '@/hooks/use-toast';
+
+export function WorkspaceSelector() {
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const { can } = useAuth();
+  const { toast } = useToast();
+
+  const { data: workspaces } = useQuery({
+    queryKey: ['/api/workspaces'],
+    queryFn: getWorkspaces,
+  });
+
+  const { data: currentWorkspace } = useQuery({
+    queryKey: ['/api/workspaces/current'],
+    queryFn: getCurrentWorkspace,
+  });
+
+  const switchMutation = useMutation({
+    mutationFn: switchWorkspace,
+    onSuccess: (workspace) => {
+      // Every cached query belongs to the previous workspace
+      queryClient.invalidateQueries();
+      toast({
+        title: 'Workspace Switched',
+        description: `Now viewing ${workspace.name}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Switch Failed',
+        description: 'Unable to switch workspace. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createWorkspace,
+    onSuccess: (workspace) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/workspaces'] });
+      setCreateOpen(false);
+      setNewName('');
+      switchMutation.mutate(workspace.id);
+    },
+    onError: () => {
+      toast({
+        title: 'Creation Failed',
+        description: 'Unable to create workspace. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2">
+            <Store className="h-4 w-4" />
+            <span className="hidden sm:inline">{currentWorkspace?.name ?? 'Workspace'}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel className="flex items-center gap-2">
+            <Store className="h-4 w-4" />
+            Select Workspace
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+
+          <div className="max-h-80 overflow-y-auto">
+            {workspaces?.map((workspace) => (
+              <DropdownMenuItem
+                key={workspace.id}
+                onClick={() => {
+                  if (workspace.id !== currentWorkspace?.id) {
+                    switchMutation.mutate(workspace.id);
+                  }
+                }}
+                className={`flex items-center justify-between cursor-pointer ${
+                  workspace.id === currentWorkspace?.id ? 'bg-accent' : ''
+                }`}
+              >
+                <span>{workspace.name}</span>
+                {workspace.id === currentWorkspace?.id && (
+                  <Check className="h-4 w-4 text-theme-primary" />
+                )}
+              </DropdownMenuItem>
+            ))}
+          </div>
+
+          {can('workspaces:manage') && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setCreateOpen(true)} className="cursor-pointer">
+                <Plus className="h-4 w-4 mr-2" />
+                New Workspace
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Workspace</DialogTitle>
+            <DialogDescription>
+              Each workspace holds the customers, orders and predictions of one storefront.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newName.trim()) createMutation.mutate(newName.trim());
+            }}
+            className="space-y-4"
+          >
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Storefront name"
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={!newName.trim() || createMutation.isPending}>
+                Create Workspace
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,424 @@
+/**
+ * Webhooks Settings
+ * Subscribe external systems to workspace events and inspect what was sent to them
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { queryClient, describeError } from "@/lib/queryClient";
+import {
+  getWebhooks,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  testWebhook,
+  getWebhookDeliveries,
+} from "@/lib/ml-api";
+import { useToast } from "@/hooks/use-toast";
+import {
+  createWebhookSchema,
+  WEBHOOK_EVENTS,
+  type CreateWebhook,
+  type PublicWebhook,
+  type WebhookDeliveryStatus,
+  type WebhookEvent,
+} from "@shared/schema";
+import { Webhook, Plus, Copy, Loader2, Send, History } from "lucide-react";
+
+const WEBHOOKS_QUERY_KEY = ['/api/webhooks'];
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  'customer.churn_risk_high': "Customer became high churn risk",
+  'recommendations.regenerated': "Recommendations regenerated",
+  'order.created': "Order created",
+};
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, "default" | "secondary" | "destructive"> = {
+  succeeded: "default",
+  pending: "secondary",
+  failed: "destructive",
+};
+
+function deliveriesQueryKey(webhookId: number) {
+  return ['/api/webhooks', webhookId, 'deliveries'];
+}
+
+function formatDateTime(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+export function WebhooksSettings() {
+  const [showForm, setShowForm] = useState(false);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<PublicWebhook | null>(null);
+  const [viewing, setViewing] = useState<PublicWebhook | null>(null);
+  const { toast } = useToast();
+
+  const { data: webhooks = [], isLoading } = useQuery({
+    queryKey: WEBHOOKS_QUERY_KEY,
+    queryFn: getWebhooks,
+  });
+
+  const { data: deliveries = [], isLoading: deliveriesLoading } = useQuery({
+    queryKey: deliveriesQueryKey(viewing?.id ?? 0),
+    queryFn: () => getWebhookDeliveries(viewing!.id),
+    enabled: viewing !== null,
+    // Retries are scheduled in the background, so keep the log current while it's open
+    refetchInterval: 10000,
+  });
+
+  const form = useForm<CreateWebhook>({
+    resolver: zodResolver(createWebhookSchema),
+    defaultValues: { url: "", events: [...WEBHOOK_EVENTS] },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createWebhook,
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: WEBHOOKS_QUERY_KEY });
+      setShowForm(false);
+      form.reset();
+      setCreatedSecret(created.secret);
+    },
+    onError: (error) => {
+      toast({
+        title: "Creation Failed",
+        description: describeError(error, "Unable to create the webhook. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: number; isActive: boolean }) => updateWebhook(id, { isActive }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: WEBHOOKS_QUERY_KEY });
+    },
+    onError: (error) => {
+      toast({
+        title: "Update Failed",
+        description: describeError(error, "Unable to update the webhook. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteWebhook,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: WEBHOOKS_QUERY_KEY });
+      toast({
+        title: "Webhook Deleted",
+        description: "No further events will be sent to it.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete Failed",
+        description: describeError(error, "Unable to delete the webhook. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: testWebhook,
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: deliveriesQueryKey(delivery.webhookId) });
+      if (delivery.status === "succeeded") {
+        toast({
+          title: "Test Delivered",
+          description: `The endpoint responded with HTTP ${delivery.responseStatus}.`,
+        });
+      } else {
+        toast({
+          title: "Test Failed",
+          description: delivery.error ?? "The endpoint did not accept the test event.",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Test Failed",
+        description: describeError(error, "Unable to send the test event. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copySecret = async () => {
+    if (!createdSecret) return;
+    await navigator.clipboard.writeText(createdSecret);
+    toast({ title: "Copied", description: "The signing secret is on your clipboard." });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Webhook className="h-5 w-5" />
+              Webhooks
+            </CardTitle>
+            <CardDescription>
+              POST signed JSON to your systems when something happens in this workspace.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setShowForm(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Webhook
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : webhooks.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No webhooks yet
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>URL</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {webhooks.map((webhook) => (
+                <TableRow key={webhook.id}>
+                  <TableCell className="font-mono text-xs max-w-[240px] truncate" title={webhook.url}>
+                    {webhook.url}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {webhook.events.map((event) => (
+                        <Badge key={event} variant="outline">{event}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={webhook.isActive}
+                      disabled={toggleMutation.isPending}
+                      onCheckedChange={(isActive) => toggleMutation.mutate({ id: webhook.id, isActive })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={testMutation.isPending && testMutation.variables === webhook.id}
+                        onClick={() => testMutation.mutate(webhook.id)}
+                      >
+                        {testMutation.isPending && testMutation.variables === webhook.id
+                          ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          : <Send className="h-4 w-4 mr-1" />}
+                        Test
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setViewing(webhook)}>
+                        <History className="h-4 w-4 mr-1" />
+                        Deliveries
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setDeleting(webhook)}>
+                        Delete
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* New Webhook Dialog */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Webhook</DialogTitle>
+            <DialogDescription>
+              Failed deliveries are retried with increasing delays for about 15 minutes.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit((values) => createMutation.mutate(values))}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="url"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Endpoint URL</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://crm.example.com/hooks/commerce" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="events"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Events</FormLabel>
+                    <div className="space-y-2">
+                      {WEBHOOK_EVENTS.map((event) => (
+                        <label key={event} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(event)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked ? [...field.value, event] : field.value.filter((value) => value !== event)
+                            )}
+                          />
+                          {EVENT_LABELS[event]}
+                          <span className="font-mono text-xs text-muted-foreground">{event}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="submit" disabled={createMutation.isPending}>
+                  {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Create Webhook
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* The secret is only available right after creation */}
+      <Dialog open={createdSecret !== null} onOpenChange={(open) => !open && setCreatedSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Copy Your Signing Secret</DialogTitle>
+            <DialogDescription>
+              Use it to verify the <code>X-Webhook-Signature</code> header. This is the only time it is shown.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={createdSecret ?? ""} className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={copySecret}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setCreatedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delivery Log Dialog */}
+      <Dialog open={viewing !== null} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Deliveries</DialogTitle>
+            <DialogDescription className="font-mono text-xs truncate">
+              {viewing?.url}
+            </DialogDescription>
+          </DialogHeader>
+          {deliveriesLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              Nothing has been sent yet
+            </p>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Response</TableHead>
+                    <TableHead>Next Retry</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="whitespace-nowrap">{formatDateTime(delivery.createdAt)}</TableCell>
+                      <TableCell className="font-mono text-xs">{delivery.event}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+                      </TableCell>
+                      <TableCell>{delivery.attempts}</TableCell>
+                      <TableCell className="text-xs max-w-[220px] truncate" title={delivery.error ?? undefined}>
+                        {delivery.error ?? (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : "—")}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDateTime(delivery.nextAttemptAt)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this webhook?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.url} will stop receiving events and its delivery log will be removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleting && deleteMutation.mutate(deleting.id)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * Auth Context Provider
+ * Exposes the signed-in user and login/register/logout mutations
+ */
+
+import { createContext, useContext, type ReactNode } from 'react';
+import { useQuery, useMutation, type UseMutationResult } from '@tanstack/react-query';
+import type { LoginUser, PublicUser } from '@shared/schema';
+import { hasPermission, type Permission } from '@shared/permissions';
+import { api } from '@shared/api';
+import { callApi, describeError, getQueryFn, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+interface AuthContextValue {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginUser>;
+  registerMutation: UseMutationResult<PublicUser, Error, LoginUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+
+  // Whether the signed-in user's role grants the permission
+  can: (permission: Permission) => boolean;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+const ME_QUERY_KEY = [api.getCurrentUser.path];
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ME_QUERY_KEY,
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginUser) => {
+      return callApi(api.login, { body: credentials });
+    },
+    onSuccess: (loggedInUser) => {
+      queryClient.setQueryData(ME_QUERY_KEY, loggedInUser);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Login Failed',
+        description: describeError(error),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: LoginUser) => {
+      return callApi(api.register, { body: credentials });
+    },
+    onSuccess: (registeredUser) => {
+      queryClient.setQueryData(ME_QUERY_KEY, registeredUser);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Registration Failed',
+        description: describeError(error),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await callApi(api.logout);
+    },
+    onSuccess: () => {
+      // Drop everything cached for the previous user
+      queryClient.clear();
+      queryClient.setQueryData(ME_QUERY_KEY, null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Logout Failed',
+        description: describeError(error),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const can = (permission: Permission): boolean => {
+    return !!user && hasPermission(user.role, permission);
+  };
+
+  const value: AuthContextValue = {
+    user: user ?? null,
+    isLoading,
+    loginMutation,
+    registerMutation,
+    logoutMutation,
+    can,
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
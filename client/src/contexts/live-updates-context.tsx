@@ -0,0 +1,89 @@
+/**
+ * Live Updates Context
+ * Subscribes to the server's event stream and refetches the queries each event makes stale
+ */
+
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+import { useQuery, type QueryKey } from '@tanstack/react-query';
+import { api, LIVE_EVENT_TYPES, type LiveEvent } from '@shared/api';
+import { queryClient } from '@/lib/queryClient';
+import { getCurrentWorkspace } from '@/lib/ml-api';
+import { useAuth } from '@/contexts/auth-context';
+
+interface LiveUpdatesContextValue {
+  // False while the stream is down; views fall back to polling then
+  connected: boolean;
+}
+
+const LiveUpdatesContext = createContext<LiveUpdatesContextValue | undefined>(undefined);
+
+const DASHBOARD_KEYS: QueryKey[] = [['/api/dashboard/metrics'], ['/api/dashboard/insights']];
+
+// Query key prefixes to invalidate for each event
+function staleQueryKeys(event: LiveEvent): QueryKey[] {
+  switch (event.type) {
+    case 'orders.changed':
+      return [...DASHBOARD_KEYS, ['/api/orders'], ['/api/customers'], ['/api/sales-metrics'], ['/api/forecast/sales']];
+    case 'predictions.changed':
+      return [...DASHBOARD_KEYS, [`/api/predictions/${event.data.predictionType}`], ['/api/customers']];
+    case 'recommendations.changed':
+      return [...DASHBOARD_KEYS, ['/api/recommendations/products']];
+    case 'models.retrained':
+      return [...DASHBOARD_KEYS, ['/api/ml/evaluations'], ['/api/forecast/sales']];
+    case 'metrics.changed':
+      return [...DASHBOARD_KEYS, ['/api/customers'], ['/api/sales-metrics'], ['/api/forecast/sales']];
+    case 'jobs.changed':
+      return [['/api/jobs'], ['/api/schedules']];
+  }
+}
+
+export function LiveUpdatesProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [connected, setConnected] = useState(false);
+
+  // The stream only carries the workspace that was active when it opened
+  const { data: workspace } = useQuery({
+    queryKey: ['/api/workspaces/current'],
+    queryFn: getCurrentWorkspace,
+    enabled: !!user,
+  });
+  const workspaceId = workspace?.id;
+
+  useEffect(() => {
+    if (!user || workspaceId === undefined) return;
+
+    // EventSource reconnects by itself after errors
+    const source = new EventSource(api.streamLiveEvents.path, { withCredentials: true });
+    const handleEvent = (message: MessageEvent<string>) => {
+      const event = JSON.parse(message.data) as LiveEvent;
+      for (const queryKey of staleQueryKeys(event)) {
+        queryClient.invalidateQueries({ queryKey });
+      }
+    };
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+    for (const type of LIVE_EVENT_TYPES) {
+      source.addEventListener(type, handleEvent);
+    }
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [user?.id, workspaceId]);
+
+  return (
+    <LiveUpdatesContext.Provider value={{ connected }}>
+      {children}
+    </LiveUpdatesContext.Provider>
+  );
+}
+
+export function useLiveUpdates() {
+  const context = useContext(LiveUpdatesContext);
+  if (!context) {
+    throw new Error('useLiveUpdates must be used within a LiveUpdatesProvider');
+  }
+  return context;
+}
@@ -0,0 +1,36 @@
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Job } from "@shared/schema";
+import { getJob } from "@/lib/ml-api";
+import { useLiveUpdates } from "@/contexts/live-updates-context";
+
+// Only used while the live update stream is down; otherwise jobs.changed events refetch the job
+const POLL_INTERVAL = 1000;
+
+export function isJobActive(job: Job): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+// Follows a background job, calling onFinished once when it succeeds, fails or is cancelled
+export function useJob(jobId: number | null, onFinished?: (job: Job) => void) {
+  const { connected } = useLiveUpdates();
+  const reportedJobId = useRef<number | null>(null);
+
+  const { data: job } = useQuery({
+    queryKey: ['/api/jobs', jobId],
+    queryFn: () => getJob(jobId!),
+    enabled: jobId !== null,
+    refetchInterval: (query) => {
+      const current = query.state.data;
+      return !connected && current && isJobActive(current) ? POLL_INTERVAL : false;
+    },
+  });
+
+  useEffect(() => {
+    if (!job || job.id !== jobId || isJobActive(job) || reportedJobId.current === job.id) return;
+    reportedJobId.current = job.id;
+    onFinished?.(job);
+  }, [job, jobId]);
+
+  return jobId === null ? undefined : job;
+}
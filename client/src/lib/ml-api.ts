@@ -1,122 +1,249 @@
-import { apiRequest } from "./queryClient";
+import { apiUrl, callApi } from "./queryClient";
+import { api } from "@shared/api";
 import type { 
   CustomerWithPredictions, 
+  CustomerQueryParams,
+  CustomerSegment,
+  PredictionHistoryQueryParams,
+  Paginated,
   MLPrediction, 
   ProductRecommendation,
-  ProductWithRecommendations,
+  RecommendationQueryParams,
   DashboardMetrics,
   MLInsight,
-  SalesMetric
+  ModelType,
+  RetrainModels,
+  InsertProduct,
+  UpdateProduct,
+  CreateApiKey,
+  CreateWebhook,
+  UpdateWebhook,
+  Job,
+  JobQueryParams,
+  UpdateSchedule,
+  AuditEventQueryParams,
+  AuditEventExportQueryParams,
+  RecordAuditEvent,
+  ExportEntity,
+  ExportQueryParams
 } from "@shared/schema";
 
 // Customer and CLV API functions
-export async function getCustomersWithPredictions(limit = 50, offset = 0): Promise<CustomerWithPredictions[]> {
-  const response = await apiRequest("GET", `/api/customers?predictions=true&limit=${limit}&offset=${offset}`);
-  return response.json();
+export async function getCustomers(query: CustomerQueryParams = {}) {
+  return callApi(api.getCustomers, { query });
 }
 
-export async function getCLVPredictions(customerId?: number): Promise<MLPrediction[]> {
-  const url = customerId 
-    ? `/api/predictions/clv?customerId=${customerId}`
-    : `/api/predictions/clv`;
-  const response = await apiRequest("GET", url);
-  return response.json();
+export async function getCustomersWithPredictions(query: CustomerQueryParams = {}) {
+  return getCustomers({ ...query, predictions: "true" });
 }
 
-export async function generateCLVPrediction(customerId: number): Promise<MLPrediction> {
-  const response = await apiRequest("POST", "/api/predictions/clv/generate", { customerId });
-  return response.json();
+// Number of customers matching the filters, without fetching the rows
+export async function countCustomers(query: CustomerQueryParams = {}): Promise<number> {
+  const page = await getCustomers({ ...query, limit: 1 });
+  return page.total;
+}
+
+// Without a customerId the endpoint lists each customer's current prediction of the type
+export async function getCLVPredictions(): Promise<MLPrediction[]> {
+  const predictions = await callApi(api.getCLVPredictions);
+  return Array.isArray(predictions) ? predictions : [];
+}
+
+// Every stored prediction of the customer, expired ones included, newest first
+export async function getCustomerPredictionHistory(customerId: number, query: PredictionHistoryQueryParams = {}) {
+  return callApi(api.getCustomerPredictionHistory, { params: { id: customerId }, query });
+}
+
+export async function generateCLVPrediction(customerId: number) {
+  return callApi(api.generateCLVPrediction, { body: { customerId } });
+}
+
+// Queues a job that predicts CLV for every customer, or those in `segment`; follow it with getJob
+export async function generateCLVPredictions(segment?: CustomerSegment) {
+  return callApi(api.generateCLVPredictions, { body: { segment } });
 }
 
 // Churn prediction API functions
-export async function getChurnPredictions(customerId?: number): Promise<MLPrediction[]> {
-  const url = customerId 
-    ? `/api/predictions/churn?customerId=${customerId}`
-    : `/api/predictions/churn`;
-  const response = await apiRequest("GET", url);
-  return response.json();
+export async function getChurnPredictions(): Promise<MLPrediction[]> {
+  const predictions = await callApi(api.getChurnPredictions);
+  return Array.isArray(predictions) ? predictions : [];
 }
 
-export async function analyzeChurnRisk(): Promise<MLPrediction[]> {
-  const response = await apiRequest("POST", "/api/predictions/churn/analyze");
-  return response.json();
+// Queues a job that scores every customer; follow it with getJob
+export async function analyzeChurnRisk() {
+  return callApi(api.analyzeChurnRisk);
 }
 
 // Sales forecasting API functions
-export async function getSalesForecast(days = 30): Promise<{
-  forecastPeriod: { startDate: Date; endDate: Date; days: number };
-  historical: SalesMetric[];
-  forecast: any[];
-  confidence: number;
-  modelMetrics: {
-    rmse: number;
-    mape: number;
-    r2: number;
-  };
-}> {
-  const response = await apiRequest("GET", `/api/forecast/sales?days=${days}`);
-  return response.json();
+export async function getSalesForecast(days = 30) {
+  return callApi(api.getSalesForecast, { query: { days } });
 }
 
-export async function getSalesMetrics(startDate?: Date, endDate?: Date): Promise<SalesMetric[]> {
-  let url = "/api/sales-metrics";
-  const params = new URLSearchParams();
-  
-  if (startDate) {
-    params.append("startDate", startDate.toISOString());
-  }
-  if (endDate) {
-    params.append("endDate", endDate.toISOString());
-  }
-  
-  if (params.toString()) {
-    url += `?${params.toString()}`;
-  }
-  
-  const response = await apiRequest("GET", url);
-  return response.json();
+export async function getSalesMetrics(startDate?: Date, endDate?: Date) {
+  return callApi(api.getSalesMetrics, { query: { startDate, endDate } });
 }
 
 // Product recommendations API functions
-export async function getProductRecommendations(productId?: number, type?: string): Promise<ProductRecommendation[]> {
-  let url = "/api/recommendations/products";
-  const params = new URLSearchParams();
-  
-  if (productId) {
-    params.append("productId", productId.toString());
-  }
-  if (type) {
-    params.append("type", type);
-  }
-  
-  if (params.toString()) {
-    url += `?${params.toString()}`;
-  }
-  
-  const response = await apiRequest("GET", url);
-  return response.json();
+export async function getProductRecommendations(query: RecommendationQueryParams = {}) {
+  return callApi(api.getProductRecommendations, { query });
 }
 
-export async function generateProductRecommendations(): Promise<ProductRecommendation[]> {
-  const response = await apiRequest("POST", "/api/recommendations/generate");
-  return response.json();
+export async function generateProductRecommendations() {
+  return callApi(api.generateProductRecommendations);
+}
+
+// Product catalog API functions
+export async function getProducts(category?: string) {
+  return callApi(api.getProducts, { query: { limit: 500, category } });
+}
+
+export async function getProductCategories() {
+  return callApi(api.getProductCategories);
+}
+
+export async function createProduct(product: InsertProduct) {
+  return callApi(api.createProduct, { body: product });
+}
+
+export async function updateProduct(id: number, updates: UpdateProduct) {
+  return callApi(api.updateProduct, { params: { id }, body: updates });
+}
+
+export async function deactivateProduct(id: number) {
+  return callApi(api.deactivateProduct, { params: { id } });
 }
 
 // Dashboard API functions
-export async function getDashboardMetrics(): Promise<DashboardMetrics> {
-  const response = await apiRequest("GET", "/api/dashboard/metrics");
-  return response.json();
+export async function getDashboardMetrics() {
+  return callApi(api.getDashboardMetrics);
 }
 
-export async function getMLInsights(): Promise<MLInsight[]> {
-  const response = await apiRequest("GET", "/api/dashboard/insights");
-  return response.json();
+export async function getMLInsights() {
+  return callApi(api.getMLInsights);
 }
 
 // ML model management
-export async function retrainModels(modelType: string): Promise<{ success: boolean; accuracy: number; timestamp: Date }> {
-  const response = await apiRequest("POST", "/api/ml/retrain", { modelType });
-  return response.json();
+// Queues a job that backtests the models against the workspace's history and stores the evaluations
+export async function retrainModels(modelType: RetrainModels['modelType']) {
+  return callApi(api.retrainModels, { body: { modelType } });
+}
+
+export async function getModelEvaluations(modelType?: ModelType, limit = 50) {
+  return callApi(api.getModelEvaluations, { query: { modelType, limit } });
+}
+
+// Background job functions
+export async function getJobs(query: JobQueryParams = {}) {
+  return callApi(api.getJobs, { query });
+}
+
+export async function getJob(id: number) {
+  return callApi(api.getJob, { params: { id } });
+}
+
+export async function cancelJob(id: number) {
+  return callApi(api.cancelJob, { params: { id } });
+}
+
+// Schedule API functions
+export async function getSchedules() {
+  return callApi(api.getSchedules);
+}
+
+export async function updateSchedule(id: number, updates: UpdateSchedule) {
+  return callApi(api.updateSchedule, { params: { id }, body: updates });
+}
+
+// Queues a run now; the schedule's next run is unchanged
+export async function runSchedule(id: number) {
+  return callApi(api.runSchedule, { params: { id } });
+}
+
+// Export API functions
+
+// Link that downloads every matching row of `entity`, streamed by the server
+export function getExportUrl(entity: ExportEntity, query: ExportQueryParams = {}) {
+  return apiUrl(api.exportData, { params: { entity }, query });
+}
+
+// Audit log API functions
+export async function getAuditEvents(query: AuditEventQueryParams = {}) {
+  return callApi(api.getAuditEvents, { query });
+}
+
+// Link that downloads every event matching the filters as CSV
+export function getAuditEventsExportUrl(query: AuditEventExportQueryParams = {}) {
+  return apiUrl(api.exportAuditEvents, { query });
+}
+
+// Records an action that only changed the browser. Failures are only logged: the
+// action has already happened and the user can't do anything about it.
+export function reportAuditEvent(event: RecordAuditEvent) {
+  callApi(api.recordAuditEvent, { body: event }).catch(error => {
+    console.error(`Failed to record audit event ${event.action}:`, error);
+  });
+}
+
+// User API functions
+export async function getUsers() {
+  return callApi(api.getUsers);
+}
+
+// Workspace API functions
+export async function getWorkspaces() {
+  return callApi(api.getWorkspaces);
+}
+
+export async function getCurrentWorkspace() {
+  return callApi(api.getCurrentWorkspace);
+}
+
+export async function switchWorkspace(workspaceId: number) {
+  return callApi(api.switchWorkspace, { body: { workspaceId } });
+}
+
+export async function createWorkspace(name: string) {
+  return callApi(api.createWorkspace, { body: { name } });
+}
+
+// API key functions
+export async function getApiKeys() {
+  return callApi(api.getApiKeys);
+}
+
+// The response carries the plain key, which can't be fetched again
+export async function createApiKey(data: CreateApiKey) {
+  return callApi(api.createApiKey, { body: data });
+}
+
+export async function revokeApiKey(id: number) {
+  return callApi(api.revokeApiKey, { params: { id } });
+}
+
+// Webhook API functions
+export async function getWebhooks() {
+  return callApi(api.getWebhooks);
+}
+
+// The response carries the signing secret, which can't be fetched again
+export async function createWebhook(data: CreateWebhook) {
+  return callApi(api.createWebhook, { body: data });
+}
+
+export async function updateWebhook(id: number, updates: UpdateWebhook) {
+  return callApi(api.updateWebhook, { params: { id }, body: updates });
+}
+
+export async function deleteWebhook(id: number) {
+  return callApi(api.deleteWebhook, { params: { id } });
+}
+
+export async function testWebhook(id: number) {
+  return callApi(api.testWebhook, { params: { id } });
+}
+
+export async function getWebhookDeliveries(id: number, limit?: number) {
+  return callApi(api.getWebhookDeliveries, { params: { id }, query: { limit } });
 }
 
 // Utility functions for data processing
@@ -193,23 +320,22 @@ export async function withErrorHandling<T>(
 }
 
 // Batch operations
+// CLV and churn scoring run in the background, so their results are the queued jobs rather than predictions
 export async function generateAllPredictions(): Promise<{
-  clv: MLPrediction[];
-  churn: MLPrediction[];
+  clvJob: Job;
+  churnJob: Job;
   recommendations: ProductRecommendation[];
 }> {
   try {
-    const [churnPredictions, recommendations] = await Promise.all([
+    const [clvJob, churnJob, recommendations] = await Promise.all([
+      generateCLVPredictions(),
       analyzeChurnRisk(),
       generateProductRecommendations()
     ]);
 
-    // CLV predictions are generated per customer, so we'll get existing ones
-    const clvPredictions = await getCLVPredictions();
-
     return {
-      clv: clvPredictions,
-      churn: churnPredictions,
+      clvJob,
+      churnJob,
       recommendations
     };
   } catch (error) {
@@ -221,13 +347,13 @@ export async function generateAllPredictions(): Promise<{
 export async function refreshAllData(): Promise<{
   metrics: DashboardMetrics;
   insights: MLInsight[];
-  customers: CustomerWithPredictions[];
+  customers: Paginated<CustomerWithPredictions>;
 }> {
   try {
     const [metrics, insights, customers] = await Promise.all([
       getDashboardMetrics(),
       getMLInsights(),
-      getCustomersWithPredictions(100, 0)
+      getCustomersWithPredictions()
     ]);
 
     return { metrics, insights, customers };
@@ -5,6 +5,7 @@
 
 import { ComponentType } from "react";
 import { WidgetDefinition, WidgetProps, WIDGET_DEFINITIONS } from "./widget-registry";
+import { reportAuditEvent } from "./ml-api";
 
 export type PluginHook = "beforeRender" | "afterRender" | "onDataFetch" | "onError";
 
@@ -60,6 +61,8 @@ class PluginManager {
     }
 
     this.plugins.set(plugin.id, plugin);
+    // Plugins register again on every page load; only the first time is an install
+    const isNewInstall = !this.metadata.has(plugin.id);
 
     // Register plugin widgets
     if (plugin.widgets) {
@@ -91,6 +94,9 @@ class PluginManager {
     }
 
     this.savePluginsToStorage();
+    if (isNewInstall) {
+      this.reportChange("plugin.installed", plugin, { after: { version: plugin.version, enabled: true } });
+    }
   }
 
   /**
@@ -124,6 +130,7 @@ class PluginManager {
     this.plugins.delete(pluginId);
     this.metadata.delete(pluginId);
     this.savePluginsToStorage();
+    this.reportChange("plugin.uninstalled", plugin, { before: { version: plugin.version } });
   }
 
   /**
@@ -143,6 +150,7 @@ class PluginManager {
 
     metadata.enabled = true;
     this.savePluginsToStorage();
+    this.reportChange("plugin.enabled", plugin, { before: { enabled: false }, after: { enabled: true } });
   }
 
   /**
@@ -162,6 +170,7 @@ class PluginManager {
 
     metadata.enabled = false;
     this.savePluginsToStorage();
+    this.reportChange("plugin.disabled", plugin, { before: { enabled: true }, after: { enabled: false } });
   }
 
   /**
@@ -224,6 +233,23 @@ class PluginManager {
     }
   }
 
+  /**
+   * Record an install, removal or toggle in the workspace audit log
+   */
+  private reportChange(
+    action: "plugin.installed" | "plugin.uninstalled" | "plugin.enabled" | "plugin.disabled",
+    plugin: Plugin,
+    changes: { before?: Record<string, unknown>; after?: Record<string, unknown> },
+  ): void {
+    reportAuditEvent({
+      action,
+      targetType: "plugin",
+      targetId: plugin.id,
+      ...changes,
+      metadata: { name: plugin.name },
+    });
+  }
+
   /**
    * Save plugin metadata to localStorage
    */
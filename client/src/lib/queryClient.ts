@@ -1,10 +1,60 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { isApiErrorBody, REQUEST_ID_HEADER, type ApiErrorCode, type FieldErrors } from "@shared/errors";
+import {
+  ZodArray, ZodDate, ZodDefault, ZodEffects, ZodLazy, ZodNullable, ZodObject, ZodOptional, ZodRecord, ZodUnion,
+  type ZodTypeAny,
+} from "zod";
+import type { ApiEndpoint, ApiInput, ApiOutput } from "@shared/api";
+
+// A failed API request, parsed from the server's error envelope
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly fieldErrors: FieldErrors = {},
+    readonly requestId: string | null = null,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
 
 async function throwIfResNotOk(res: Response) {
-  if (!res.ok) {
-    const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+  if (res.ok) return;
+
+  const text = await res.text();
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    body = undefined;
   }
+
+  if (isApiErrorBody(body)) {
+    const { code, message, fieldErrors, requestId } = body.error;
+    throw new ApiError(res.status, code, message, fieldErrors, requestId);
+  }
+
+  // Not from the API, e.g. a proxy error page
+  throw new ApiError(
+    res.status,
+    res.status >= 500 ? "internal_error" : "bad_request",
+    text || res.statusText,
+    {},
+    res.headers.get(REQUEST_ID_HEADER),
+  );
+}
+
+// Message for a toast: the API's own message, with the request id for server
+// errors so it can be matched to the logs
+export function describeError(error: unknown, fallback = "Something went wrong. Please try again."): string {
+  if (error instanceof ApiError) {
+    return error.status >= 500 && error.requestId
+      ? `${error.message} (request ${error.requestId})`
+      : error.message;
+  }
+  return fallback;
 }
 
 export async function apiRequest(
@@ -23,6 +73,66 @@ export async function apiRequest(
   return res;
 }
 
+type ApiInputArgs<E extends ApiEndpoint> = {} extends ApiInput<E> ? [input?: ApiInput<E>] : [input: ApiInput<E>];
+
+// The endpoint's URL with its path params and query string filled in, e.g. for download links
+export function apiUrl<E extends ApiEndpoint>(endpoint: E, ...[input]: ApiInputArgs<E>): string {
+  const { params = {}, query = {} } = (input ?? {}) as {
+    params?: Record<string, unknown>;
+    query?: Record<string, unknown>;
+  };
+
+  const path = endpoint.path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(String(params[name])));
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== "") {
+      search.append(key, value instanceof Date ? value.toISOString() : String(value));
+    }
+  }
+
+  return search.toString() ? `${path}?${search.toString()}` : path;
+}
+
+// JSON carries dates as ISO strings. Turns those the schema declares as dates back into
+// Dates, leaving every other value as it is.
+function reviveDates(schema: ZodTypeAny, value: unknown): unknown {
+  if (value === null || value === undefined) return value;
+  if (schema instanceof ZodDate) return typeof value === "string" ? new Date(value) : value;
+  if (schema instanceof ZodOptional || schema instanceof ZodNullable) return reviveDates(schema.unwrap(), value);
+  if (schema instanceof ZodDefault) return reviveDates(schema.removeDefault(), value);
+  if (schema instanceof ZodEffects) return reviveDates(schema.innerType(), value);
+  if (schema instanceof ZodLazy) return reviveDates(schema.schema, value);
+  if (schema instanceof ZodArray) {
+    return Array.isArray(value) ? value.map(item => reviveDates(schema.element, item)) : value;
+  }
+  if (schema instanceof ZodRecord || schema instanceof ZodObject) {
+    if (typeof value !== "object" || Array.isArray(value)) return value;
+    const shape: Record<string, ZodTypeAny> = schema instanceof ZodObject ? schema.shape : {};
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => {
+      const fieldSchema = schema instanceof ZodRecord ? schema.valueSchema : shape[key];
+      return [key, fieldSchema ? reviveDates(fieldSchema, field) : field];
+    }));
+  }
+  // The first option the revived value satisfies
+  if (schema instanceof ZodUnion) {
+    for (const option of schema.options as ZodTypeAny[]) {
+      const revived = reviveDates(option, value);
+      if (option.safeParse(revived).success) return revived;
+    }
+  }
+  return value;
+}
+
+// Calls an endpoint from the shared API contract, so the input and the parsed
+// response are typed by the same declaration the server implements
+export async function callApi<E extends ApiEndpoint>(endpoint: E, ...args: ApiInputArgs<E>): Promise<ApiOutput<E>> {
+  const body = (args[0] as { body?: unknown } | undefined)?.body;
+  const res = await apiRequest(endpoint.method.toUpperCase(), apiUrl(endpoint, ...args), body);
+  if (res.status === 204) return undefined as ApiOutput<E>;
+  const json: unknown = await res.json();
+  return (endpoint.response ? reviveDates(endpoint.response, json) : json) as ApiOutput<E>;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
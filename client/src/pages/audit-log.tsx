@@ -0,0 +1,333 @@
+/**
+ * Audit Log Page
+ * Who changed what in the workspace, with before/after values, filters and CSV export
+ */
+
+import { Fragment, useState } from "react";
+import { Link } from "wouter";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getAuditEvents, getAuditEventsExportUrl, getUsers } from "@/lib/ml-api";
+import { useAuth } from "@/contexts/auth-context";
+import { AUDIT_ACTIONS, type AuditAction, type AuditEvent, type AuditEventExportQueryParams } from "@shared/schema";
+import { ArrowLeft, ScrollText, Download, Loader2, ChevronDown, ChevronRight, RotateCcw } from "lucide-react";
+
+const PAGE_SIZE = 50;
+
+interface Filters {
+  action: AuditAction | "all";
+  actorId: string;
+  targetType: string;
+  targetId: string;
+  // yyyy-mm-dd from the date inputs, in local time
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { action: "all", actorId: "all", targetType: "", targetId: "", from: "", to: "" };
+
+// Query string for the API: whole local days, and only the filters that are set
+function toQuery(filters: Filters): AuditEventExportQueryParams {
+  return {
+    action: filters.action === "all" ? undefined : filters.action,
+    actorId: filters.actorId === "all" ? undefined : Number(filters.actorId),
+    targetType: filters.targetType.trim() || undefined,
+    targetId: filters.targetId.trim() || undefined,
+    from: filters.from ? new Date(`${filters.from}T00:00:00`) : undefined,
+    to: filters.to ? new Date(`${filters.to}T23:59:59.999`) : undefined,
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function describeTarget(event: AuditEvent): string {
+  return event.targetId ? `${event.targetType} #${event.targetId}` : event.targetType;
+}
+
+export default function AuditLog() {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [offset, setOffset] = useState(0);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const { can } = useAuth();
+  const canRead = can("audit:read");
+
+  const query = toQuery(filters);
+
+  const { data: users = [] } = useQuery({
+    queryKey: ['/api/users'],
+    queryFn: getUsers,
+    enabled: canRead,
+  });
+
+  const { data: page, isLoading, isFetching } = useQuery({
+    queryKey: ['/api/audit-events', query, offset],
+    queryFn: () => getAuditEvents({ ...query, limit: PAGE_SIZE, offset }),
+    enabled: canRead,
+    placeholderData: keepPreviousData,
+  });
+
+  const updateFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+    setOffset(0);
+  };
+
+  const events = page?.data ?? [];
+  const total = page?.total ?? 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-theme-primary/5 p-6">
+      <div className="container mx-auto max-w-7xl space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <Link href="/settings">
+              <Button variant="ghost" className="mb-4">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Settings
+              </Button>
+            </Link>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <ScrollText className="h-8 w-8" />
+              Audit Log
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Every change to this workspace, who made it and when
+            </p>
+          </div>
+          {canRead && (
+            <a href={getAuditEventsExportUrl(query)} download>
+              <Button variant="outline">
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+            </a>
+          )}
+        </div>
+
+        {!canRead ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Only admins can view the audit log.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Filters */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Filters</CardTitle>
+                <CardDescription>The export uses the same filters, without paging</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
+                  <div className="space-y-2">
+                    <Label>Action</Label>
+                    <Select value={filters.action} onValueChange={(value) => updateFilter("action", value as Filters["action"])}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All actions</SelectItem>
+                        {AUDIT_ACTIONS.map((action) => (
+                          <SelectItem key={action} value={action}>{action}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Actor</Label>
+                    <Select value={filters.actorId} onValueChange={(value) => updateFilter("actorId", value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">Anyone</SelectItem>
+                        {users.map((user) => (
+                          <SelectItem key={user.id} value={String(user.id)}>{user.username}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Target Type</Label>
+                    <Input
+                      placeholder="e.g. customer"
+                      value={filters.targetType}
+                      onChange={(e) => updateFilter("targetType", e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Target ID</Label>
+                    <Input
+                      placeholder="e.g. 42"
+                      value={filters.targetId}
+                      onChange={(e) => updateFilter("targetId", e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>From</Label>
+                    <Input type="date" value={filters.from} onChange={(e) => updateFilter("from", e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>To</Label>
+                    <Input type="date" value={filters.to} onChange={(e) => updateFilter("to", e.target.value)} />
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="mt-4"
+                  onClick={() => {
+                    setFilters(EMPTY_FILTERS);
+                    setOffset(0);
+                  }}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Clear Filters
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Events */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  Events
+                  {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                </CardTitle>
+                <CardDescription>{total} matching, newest first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                  </div>
+                ) : events.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">
+                    No events match these filters
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-8" />
+                        <TableHead>Time</TableHead>
+                        <TableHead>Actor</TableHead>
+                        <TableHead>Action</TableHead>
+                        <TableHead>Target</TableHead>
+                        <TableHead>Changes</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {events.map((event) => {
+                        const changes = Object.entries(event.changes ?? {});
+                        const isExpanded = expanded === event.id;
+                        const hasDetails = changes.length > 0 || event.metadata !== null;
+                        return (
+                          <Fragment key={event.id}>
+                            <TableRow
+                              className={hasDetails ? "cursor-pointer" : undefined}
+                              onClick={() => hasDetails && setExpanded(isExpanded ? null : event.id)}
+                            >
+                              <TableCell>
+                                {hasDetails && (isExpanded
+                                  ? <ChevronDown className="h-4 w-4" />
+                                  : <ChevronRight className="h-4 w-4" />)}
+                              </TableCell>
+                              <TableCell className="whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</TableCell>
+                              <TableCell>
+                                {event.actorName}
+                                {event.apiKeyId && <Badge variant="outline" className="ml-2">API key</Badge>}
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant="secondary" className="font-mono">{event.action}</Badge>
+                              </TableCell>
+                              <TableCell>{describeTarget(event)}</TableCell>
+                              <TableCell className="text-sm text-muted-foreground">
+                                {changes.length > 0 ? changes.map(([field]) => field).join(", ") : "—"}
+                              </TableCell>
+                            </TableRow>
+                            {isExpanded && (
+                              <TableRow>
+                                <TableCell />
+                                <TableCell colSpan={5} className="bg-muted/40">
+                                  {changes.length > 0 && (
+                                    <Table>
+                                      <TableHeader>
+                                        <TableRow>
+                                          <TableHead>Field</TableHead>
+                                          <TableHead>Before</TableHead>
+                                          <TableHead>After</TableHead>
+                                        </TableRow>
+                                      </TableHeader>
+                                      <TableBody>
+                                        {changes.map(([field, change]) => (
+                                          <TableRow key={field}>
+                                            <TableCell className="font-medium">{field}</TableCell>
+                                            <TableCell className="font-mono text-xs break-all">{formatValue(change.before)}</TableCell>
+                                            <TableCell className="font-mono text-xs break-all">{formatValue(change.after)}</TableCell>
+                                          </TableRow>
+                                        ))}
+                                      </TableBody>
+                                    </Table>
+                                  )}
+                                  {event.metadata && (
+                                    <pre className="text-xs font-mono mt-2 whitespace-pre-wrap break-all">
+                                      {JSON.stringify(event.metadata, null, 2)}
+                                    </pre>
+                                  )}
+                                  {event.requestId && (
+                                    <p className="text-xs text-muted-foreground mt-2">Request {event.requestId}</p>
+                                  )}
+                                </TableCell>
+                              </TableRow>
+                            )}
+                          </Fragment>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+
+                {total > PAGE_SIZE && (
+                  <div className="flex items-center justify-between mt-4">
+                    <p className="text-sm text-muted-foreground">
+                      {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+                    </p>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={offset === 0}
+                        onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                      >
+                        Previous
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={offset + PAGE_SIZE >= total}
+                        onClick={() => setOffset(offset + PAGE_SIZE)}
+                      >
+                        Next
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
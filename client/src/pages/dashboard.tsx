@@ -4,7 +4,7 @@ import { Link } from "wouter";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { RefreshCw, Download, Settings, Database } from "lucide-react";
+import { RefreshCw, Download, Settings, Database, Package, X } from "lucide-react";
 import { MLKPICards } from "@/components/ml/MLKPICards";
 import { CLVPrediction } from "@/components/ml/CLVPrediction";
 import { ChurnAnalysis } from "@/components/ml/ChurnAnalysis";
@@ -12,24 +12,41 @@ import { SalesForecasting } from "@/components/ml/SalesForecasting";
 import { ProductRecommendations } from "@/components/ml/ProductRecommendations";
 import { ColorPaletteSelector } from "@/components/ui/color-palette-selector";
 import { DomainSelector } from "@/components/ui/domain-selector";
+import { WorkspaceSelector } from "@/components/ui/workspace-selector";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
+import { UserMenu } from "@/components/user-menu";
+import { ExportMenu } from "@/components/export-menu";
+import { useAuth } from "@/contexts/auth-context";
+import { useLiveUpdates } from "@/contexts/live-updates-context";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
-import { getDashboardMetrics, getMLInsights, retrainModels } from "@/lib/ml-api";
+import { getDashboardMetrics, getMLInsights, getProductCategories, retrainModels, cancelJob, formatConfidence } from "@/lib/ml-api";
+import { describeError } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useJob } from "@/hooks/use-job";
 import { usePreferences } from "@/components/preferences-provider";
 import { useDomain } from "@/contexts/domain-context";
 import { REFRESH_INTERVALS } from "@/lib/preferences";
+import { MODEL_TYPES, type Job } from "@shared/schema";
 
 export default function Dashboard() {
   const [selectedPeriod, setSelectedPeriod] = useState("30d");
   const [selectedCategory, setSelectedCategory] = useState("all");
-  const [isRefreshing, setIsRefreshing] = useState(false);
+  // The retrain job started by the Refresh button, followed until it finishes
+  const [retrainJobId, setRetrainJobId] = useState<number | null>(null);
+  const [isQueueing, setIsQueueing] = useState(false);
   const { toast } = useToast();
   const { preferences } = usePreferences();
   const { domainConfig, getTerminology, getEntityLabel } = useDomain();
+  const { can } = useAuth();
+  const { connected } = useLiveUpdates();
 
-  // Get refresh interval from preferences
-  const refreshInterval = REFRESH_INTERVALS[preferences.dashboard.refreshInterval];
+  // Live updates refetch what changed; the preferred interval only applies while they're down
+  const refreshInterval = connected ? 0 : REFRESH_INTERVALS[preferences.dashboard.refreshInterval];
+
+  const { data: productCategories = [] } = useQuery({
+    queryKey: ['/api/products/categories'],
+    queryFn: getProductCategories,
+  });
 
   const { data: dashboardMetrics, isLoading: metricsLoading, refetch: refetchMetrics } = useQuery({
     queryKey: ["/api/dashboard/metrics"],
@@ -38,34 +55,66 @@ export default function Dashboard() {
 
   const { data: mlInsights, isLoading: insightsLoading, refetch: refetchInsights } = useQuery({
     queryKey: ["/api/dashboard/insights"],
+    queryFn: getMLInsights,
     refetchInterval: refreshInterval || false,
   });
 
-  const handleRefresh = async () => {
-    setIsRefreshing(true);
-    try {
-      await retrainModels("all");
-      await Promise.all([refetchMetrics(), refetchInsights()]);
+  const handleRetrainFinished = (job: Job) => {
+    setRetrainJobId(null);
+    if (job.status === 'cancelled') {
+      toast({ title: "Refresh Cancelled", description: "Models evaluated before cancelling were kept." });
+      return;
+    }
+    if (job.status === 'failed') {
       toast({
-        title: "Models Updated",
-        description: "ML models have been retrained successfully.",
+        title: "Refresh Failed",
+        description: job.error ?? "Failed to refresh ML models. Please try again.",
+        variant: "destructive",
       });
+      return;
+    }
+
+    refetchMetrics();
+    refetchInsights();
+    const result = job.result && 'modelTypes' in job.result ? job.result : null;
+    toast({
+      title: result?.success ? "Models Evaluated" : "Not Enough History",
+      description: result?.success
+        ? `Evaluated ${result.modelTypes.length} of ${MODEL_TYPES.length} models against recent history.`
+        : "There is not enough order history to evaluate the models yet.",
+    });
+  };
+
+  const retrainJob = useJob(retrainJobId, handleRetrainFinished);
+  const isRefreshing = isQueueing || retrainJobId !== null;
+
+  const handleRefresh = async () => {
+    setIsQueueing(true);
+    try {
+      const job = await retrainModels("all");
+      setRetrainJobId(job.id);
     } catch (error) {
       toast({
         title: "Refresh Failed",
-        description: "Failed to refresh ML models. Please try again.",
+        description: describeError(error, "Failed to refresh ML models. Please try again."),
         variant: "destructive",
       });
     } finally {
-      setIsRefreshing(false);
+      setIsQueueing(false);
     }
   };
 
-  const handleExport = () => {
-    toast({
-      title: "Export Started",
-      description: "Dashboard data is being exported...",
-    });
+  const handleCancelRefresh = async () => {
+    if (retrainJobId === null) return;
+    try {
+      await cancelJob(retrainJobId);
+    } catch (error) {
+      toast({
+        title: "Cancel Failed",
+        description: describeError(error, "Unable to cancel the refresh."),
+        variant: "destructive",
+      });
+    }
   };
 
   if (metricsLoading || insightsLoading) {
@@ -102,6 +151,13 @@ export default function Dashboard() {
           
           <div className="flex flex-wrap gap-3 mt-4 lg:mt-0">
             <DomainSelector />
+            <WorkspaceSelector />
+            <Link href="/products">
+              <Button variant="outline">
+                <Package className="h-4 w-4 mr-2" />
+                Products
+              </Button>
+            </Link>
             <Link href="/data-sources">
               <Button variant="outline">
                 <Database className="h-4 w-4 mr-2" />
@@ -114,6 +170,7 @@ export default function Dashboard() {
               </Button>
             </Link>
             <ThemeToggle />
+            <UserMenu />
             <Select value={selectedPeriod} onValueChange={setSelectedPeriod}>
               <SelectTrigger className="w-40">
                 <SelectValue />
@@ -131,30 +188,49 @@ export default function Dashboard() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Categories</SelectItem>
-                <SelectItem value="electronics">Electronics</SelectItem>
-                <SelectItem value="clothing">Clothing</SelectItem>
-                <SelectItem value="home">Home & Garden</SelectItem>
+                {productCategories.map((category) => (
+                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
             
             <ColorPaletteSelector />
             
-            <Button 
-              onClick={handleRefresh}
-              disabled={isRefreshing}
-              className="bg-theme-primary hover:bg-theme-primary/80"
-            >
-              <RefreshCw className={`w-4 h-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`} />
-              Refresh ML Models
-            </Button>
+            {can("models:retrain") && (
+              <div className="flex gap-1">
+                <Button 
+                  onClick={handleRefresh}
+                  disabled={isRefreshing}
+                  className="bg-theme-primary hover:bg-theme-primary/80"
+                >
+                  <RefreshCw className={`w-4 h-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`} />
+                  {!isRefreshing
+                    ? "Refresh ML Models"
+                    : retrainJob?.status === 'running'
+                      ? `Refreshing ${retrainJob.progress}%`
+                      : "Queued..."}
+                </Button>
+                {retrainJobId !== null && (
+                  <Button variant="outline" size="icon" onClick={handleCancelRefresh} title="Cancel refresh">
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            )}
             
-            <Button 
-              onClick={handleExport}
-              className="bg-theme-success hover:bg-theme-success/80"
+            <ExportMenu
+              exports={[
+                { entity: "customers", label: "Customers & Predictions" },
+                { entity: "orders", label: "Orders" },
+                { entity: "recommendations", label: "Recommendations", query: { category: selectedCategory === "all" ? undefined : selectedCategory } },
+                { entity: "forecast", label: "Sales Forecast" },
+              ]}
             >
-              <Download className="w-4 h-4 mr-2" />
-              Export Report
-            </Button>
+              <Button className="bg-theme-success hover:bg-theme-success/80">
+                <Download className="w-4 h-4 mr-2" />
+                Export Report
+              </Button>
+            </ExportMenu>
           </div>
         </div>
 
@@ -194,6 +270,20 @@ export default function Dashboard() {
                   }`}>
                     {insight.description}
                   </p>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground mb-3">
+                    <span>{insight.impact}</span>
+                    <span>{formatConfidence(insight.confidence)} confidence</span>
+                  </div>
+                  {(insight.customerIds.length > 0 || insight.productIds.length > 0) && (
+                    <p className="text-xs text-muted-foreground mb-3">
+                      {insight.customerIds.length > 0 && `${insight.customerIds.length} customers affected`}
+                      {insight.productIds.length > 0 && (
+                        <Link href="/products" className="underline">
+                          {insight.productIds.length} products involved
+                        </Link>
+                      )}
+                    </p>
+                  )}
                   {insight.actionable && (
                     <Button 
                       size="sm" 
@@ -0,0 +1,347 @@
+/**
+ * Products Page
+ * Manage the product catalog that orders, recommendations and dashboard filters draw from
+ */
+
+import { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { queryClient, describeError, ApiError } from "@/lib/queryClient";
+import { getProducts, getProductCategories, createProduct, updateProduct, deactivateProduct } from "@/lib/ml-api";
+import { useAuth } from "@/contexts/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { insertProductSchema, type Product, type InsertProduct } from "@shared/schema";
+import { ArrowLeft, Package, Plus, Edit, Search, Loader2 } from "lucide-react";
+
+// Refreshes the catalog and the category list shared with the dashboard filter
+function invalidateProducts() {
+  queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/products/categories'] });
+}
+
+export default function Products() {
+  const [selectedCategory, setSelectedCategory] = useState("all");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [showForm, setShowForm] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const canManage = can("products:manage");
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ['/api/products/categories'],
+    queryFn: getProductCategories,
+  });
+
+  const { data: products = [], isLoading } = useQuery({
+    queryKey: ['/api/products', selectedCategory],
+    queryFn: () => getProducts(selectedCategory === "all" ? undefined : selectedCategory),
+  });
+
+  const form = useForm<InsertProduct>({
+    resolver: zodResolver(insertProductSchema),
+    defaultValues: { name: "", category: "", price: "" },
+  });
+
+  useEffect(() => {
+    if (showForm) {
+      form.reset(editingProduct
+        ? { name: editingProduct.name, category: editingProduct.category, price: editingProduct.price }
+        : { name: "", category: "", price: "" });
+    }
+  }, [showForm, editingProduct]);
+
+  const saveMutation = useMutation({
+    mutationFn: (values: InsertProduct) =>
+      editingProduct ? updateProduct(editingProduct.id, values) : createProduct(values),
+    onSuccess: (product) => {
+      invalidateProducts();
+      setShowForm(false);
+      setEditingProduct(null);
+      toast({
+        title: editingProduct ? "Product Updated" : "Product Created",
+        description: `${product.name} has been saved.`,
+      });
+    },
+    onError: (error) => {
+      // Show the server's field errors next to the matching inputs
+      if (error instanceof ApiError) {
+        for (const [field, messages] of Object.entries(error.fieldErrors)) {
+          if (field in form.getValues()) {
+            form.setError(field as keyof InsertProduct, { message: messages[0] });
+          }
+        }
+      }
+      toast({
+        title: "Save Failed",
+        description: describeError(error, "Unable to save the product. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: (product: Product) =>
+      product.isActive ? deactivateProduct(product.id) : updateProduct(product.id, { isActive: true }),
+    onSuccess: (product) => {
+      invalidateProducts();
+      toast({
+        title: product.isActive ? "Product Activated" : "Product Deactivated",
+        description: `${product.name} is now ${product.isActive ? "available" : "hidden from new orders"}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Update Failed",
+        description: describeError(error, "Unable to change product status. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = (product: Product | null) => {
+    setEditingProduct(product);
+    setShowForm(true);
+  };
+
+  const filteredProducts = products.filter((product) =>
+    product.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-theme-primary/5 p-6">
+      <div className="container mx-auto max-w-7xl space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <Link href="/">
+              <Button variant="ghost" className="mb-4">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Package className="h-8 w-8" />
+              Products
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Manage your product catalog and categories
+            </p>
+          </div>
+          {canManage && (
+            <Button onClick={() => openForm(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Product
+            </Button>
+          )}
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm font-medium">Products</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{products.length}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm font-medium">Active</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-green-600">
+                {products.filter((p) => p.isActive).length}
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm font-medium">Categories</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{categories.length}</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Search className="h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search products..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="max-w-sm"
+            />
+          </div>
+          <Select value={selectedCategory} onValueChange={setSelectedCategory}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Categories</SelectItem>
+              {categories.map((category) => (
+                <SelectItem key={category} value={category}>{category}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Catalog */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Catalog</CardTitle>
+            <CardDescription>
+              Inactive products stay in order history but are hidden from new orders
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : filteredProducts.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                {searchQuery ? "Try a different search term" : "No products in this category yet"}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead>Status</TableHead>
+                    {canManage && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredProducts.map((product) => (
+                    <TableRow key={product.id}>
+                      <TableCell className="font-medium">{product.name}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{product.category}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">${product.price}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {canManage && (
+                            <Switch
+                              checked={product.isActive}
+                              disabled={toggleActiveMutation.isPending}
+                              onCheckedChange={() => toggleActiveMutation.mutate(product)}
+                            />
+                          )}
+                          <Badge variant={product.isActive ? "default" : "secondary"}>
+                            {product.isActive ? "active" : "inactive"}
+                          </Badge>
+                        </div>
+                      </TableCell>
+                      {canManage && (
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => openForm(product)}>
+                            <Edit className="h-3 w-3" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Product Form Dialog */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingProduct ? "Edit Product" : "New Product"}</DialogTitle>
+            <DialogDescription>
+              Pick an existing category or type a new one
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <FormControl>
+                      <Input list="product-categories" {...field} />
+                    </FormControl>
+                    <datalist id="product-categories">
+                      {categories.map((category) => (
+                        <option key={category} value={category} />
+                      ))}
+                    </datalist>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price</FormLabel>
+                    <FormControl>
+                      <Input inputMode="decimal" placeholder="0.00" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {editingProduct ? "Save Changes" : "Create Product"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
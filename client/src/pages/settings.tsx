@@ -9,7 +9,11 @@ import { usePreferences } from "@/components/preferences-provider";
 import { RefreshInterval, ColorPalette, DashboardLayout } from "@/lib/preferences";
 import { useToast } from "@/hooks/use-toast";
 import { AdvancedThemeCustomizer } from "@/components/advanced-theme-customizer";
-import { Settings as SettingsIcon, Palette, Bell, Layout, RotateCcw, ArrowLeft, Puzzle } from "lucide-react";
+import { ApiKeysSettings } from "@/components/api-keys-settings";
+import { WebhooksSettings } from "@/components/webhooks-settings";
+import { SchedulesSettings } from "@/components/schedules-settings";
+import { useAuth } from "@/contexts/auth-context";
+import { Settings as SettingsIcon, Palette, Bell, Layout, RotateCcw, ArrowLeft, Puzzle, ScrollText } from "lucide-react";
 
 export default function Settings() {
   const {
@@ -21,6 +25,7 @@ export default function Settings() {
     resetPreferences,
   } = usePreferences();
   const { toast } = useToast();
+  const { can } = useAuth();
 
   const handleReset = () => {
     resetPreferences();
@@ -97,7 +102,7 @@ export default function Settings() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="refresh">Auto-Refresh Interval</Label>
+              <Label htmlFor="refresh">Fallback Refresh Interval</Label>
               <Select
                 value={preferences.dashboard.refreshInterval}
                 onValueChange={(value: RefreshInterval) =>
@@ -340,6 +345,38 @@ export default function Settings() {
         {/* Advanced Theme Customizer */}
         <AdvancedThemeCustomizer />
 
+        {/* API Keys */}
+        <ApiKeysSettings />
+
+        {/* Webhooks */}
+        {can("webhooks:manage") && <WebhooksSettings />}
+
+        {/* Scheduled Jobs */}
+        {can("schedules:manage") && <SchedulesSettings />}
+
+        {/* Audit Log */}
+        {can("audit:read") && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ScrollText className="h-5 w-5" />
+                Audit Log
+              </CardTitle>
+              <CardDescription>
+                Who changed orders, products, models and settings in this workspace
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/audit-log">
+                <Button variant="outline" className="w-full">
+                  <ScrollText className="h-4 w-4 mr-2" />
+                  View Audit Log
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Plugin Management */}
         <Card>
           <CardHeader>
@@ -0,0 +1,106 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash, randomBytes } from "crypto";
+import type { ApiKey, CreateApiKey, PublicApiKey, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { ApiError, sendError } from "./errors";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request authenticated with an API key rather than a session
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+// Keys look like `cdk_<43 base64url chars>`; the prefix makes leaked keys easy to spot
+const KEY_PREFIX = "cdk_";
+// Characters of the key kept in plain text for display
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+// Writing lastUsedAt on every request would add a write to each read
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// Stores a new key for `user` and returns it along with the plain key, which is never stored
+export async function createApiKey(
+  storage: IStorage,
+  user: User,
+  { name, scope, expiresInDays }: CreateApiKey,
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = KEY_PREFIX + randomBytes(32).toString("base64url");
+  const apiKey = await storage.createApiKey({
+    userId: user.id,
+    name,
+    scope,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+    expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null,
+  });
+  return { apiKey, key };
+}
+
+export function toPublicApiKey(apiKey: ApiKey): PublicApiKey {
+  const { keyHash: _keyHash, ...publicKey } = apiKey;
+  return publicKey;
+}
+
+// Signs the request in as the key's owner when it carries `Authorization: Bearer <key>`.
+// Requests without the header fall through to the session.
+export function authenticateApiKey(storage: IStorage) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.get("authorization");
+    if (!header) return next();
+
+    try {
+      const [scheme, key] = header.split(" ");
+      if (scheme?.toLowerCase() !== "bearer" || !key) {
+        throw new ApiError("unauthenticated", "Authorization header must be `Bearer <api key>`");
+      }
+
+      const now = new Date();
+      const apiKey = await storage.getApiKeyByHash(hashApiKey(key));
+      if (!apiKey) {
+        throw new ApiError("unauthenticated", "Invalid API key");
+      }
+      if (apiKey.revokedAt) {
+        throw new ApiError("unauthenticated", "API key has been revoked");
+      }
+      if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+        throw new ApiError("unauthenticated", "API key has expired");
+      }
+
+      const user = await storage.getUser(apiKey.userId);
+      if (!user) {
+        throw new ApiError("unauthenticated", "Invalid API key");
+      }
+      if (apiKey.scope === "read" && !READ_METHODS.includes(req.method)) {
+        throw new ApiError("forbidden", "This API key is read-only");
+      }
+
+      req.user = user;
+      req.apiKey = apiKey;
+
+      if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+        storage.markApiKeyUsed(apiKey.id, now).catch(error => {
+          console.error(`[${req.requestId}] Failed to record API key use:`, error);
+        });
+      }
+      next();
+    } catch (error) {
+      sendError(req, res, error, "Failed to authenticate API key");
+    }
+  };
+}
+
+// For routes that manage credentials: a leaked key must not be able to mint or revoke keys
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (req.apiKey) {
+    return sendError(req, res, new ApiError("forbidden", "This action requires signing in, not an API key"));
+  }
+  next();
+}
@@ -0,0 +1,108 @@
+import type { Request, Response } from "express";
+import type { AuditAction, AuditChanges, AuditEvent, AuditEventQuery } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { pageThrough, streamTable, type ExportTable } from "./exports";
+
+// Recorded as the actor of events the scheduler and job worker cause
+export const SYSTEM_ACTOR = "system";
+
+// Never copied into a diff, even when a caller passes the whole row
+const REDACTED_FIELDS = ["password", "keyHash", "secret"];
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetType: string;
+  targetId?: string | number | null;
+  // The target before and after the change; only the fields that differ are kept
+  before?: object | null;
+  after?: object | null;
+  metadata?: Record<string, unknown>;
+}
+
+// Fields whose values differ between `before` and `after`, compared as JSON so dates
+// and decimals match whatever the API returned
+export function diffAuditChanges(before?: object | null, after?: object | null): AuditChanges | null {
+  const previous = toJsonRecord(before);
+  const next = toJsonRecord(after);
+  const changes: AuditChanges = {};
+
+  for (const field of Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]))) {
+    if (REDACTED_FIELDS.includes(field)) continue;
+    if (JSON.stringify(previous[field]) === JSON.stringify(next[field])) continue;
+    changes[field] = {
+      ...(field in previous && { before: previous[field] }),
+      ...(field in next && { after: next[field] }),
+    };
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+// Records an action taken by the signed-in user (or API key) in the active workspace.
+// Never throws: losing an audit entry must not undo the change it describes.
+export async function recordAudit(req: Request, entry: AuditEntry): Promise<AuditEvent | undefined> {
+  return await appendAuditEvent(req.storage, entry, {
+    actorId: req.user?.id ?? null,
+    actorName: req.user?.username ?? SYSTEM_ACTOR,
+    apiKeyId: req.apiKey?.id ?? null,
+    requestId: req.requestId,
+  });
+}
+
+// Records an action the server took on its own, e.g. a scheduled run or a job finishing
+export async function recordSystemAudit(storage: IStorage, entry: AuditEntry): Promise<AuditEvent | undefined> {
+  return await appendAuditEvent(storage, entry, { actorId: null, actorName: SYSTEM_ACTOR, apiKeyId: null, requestId: null });
+}
+
+async function appendAuditEvent(
+  storage: IStorage,
+  { action, targetType, targetId, before, after, metadata }: AuditEntry,
+  actor: Pick<AuditEvent, 'actorId' | 'actorName' | 'apiKeyId' | 'requestId'>,
+): Promise<AuditEvent | undefined> {
+  try {
+    return await storage.createAuditEvent({
+      ...actor,
+      action,
+      targetType,
+      targetId: targetId == null ? null : String(targetId),
+      changes: diffAuditChanges(before, after),
+      metadata: metadata ?? null,
+    });
+  } catch (error) {
+    console.error(`Failed to record audit event ${action}:`, error);
+    return undefined;
+  }
+}
+
+type AuditEventFilters = Omit<AuditEventQuery, 'limit' | 'offset'>;
+
+// Events recorded after the export started are left out, so later pages don't shift under it
+const auditEventsTable: ExportTable<AuditEvent, AuditEventFilters> = {
+  columns: {
+    createdAt: event => event.createdAt,
+    actor: event => event.actorName,
+    actorId: event => event.actorId,
+    apiKeyId: event => event.apiKeyId,
+    action: event => event.action,
+    targetType: event => event.targetType,
+    targetId: event => event.targetId,
+    changes: event => event.changes,
+    metadata: event => event.metadata,
+    requestId: event => event.requestId,
+  },
+  forEachPage(storage, filters, now, handle) {
+    const to = filters.to && filters.to < now ? filters.to : now;
+    return pageThrough(async (limit, offset) => {
+      const page = await storage.searchAuditEvents({ ...filters, to, limit, offset });
+      return page.data;
+    }, handle);
+  },
+};
+
+// Writes every event matching `filters` to `res` as CSV, a page at a time
+export function streamAuditEventsCsv(storage: IStorage, filters: AuditEventFilters, res: Response, now: Date = new Date()) {
+  return streamTable(storage, auditEventsTable, filters, "csv", "audit-log", res, now);
+}
+
+function toJsonRecord(value?: object | null): Record<string, unknown> {
+  return value ? JSON.parse(JSON.stringify(value)) : {};
+}
@@ -0,0 +1,173 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import type { Express, Request, Response, NextFunction } from "express";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { DEFAULT_WORKSPACE_ID, registerUserSchema, type User as SelectUser, type PublicUser } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { api } from "@shared/api";
+import type { IStorage } from "./storage";
+import { ApiError, validate, sendError } from "./errors";
+import { implement } from "./contract";
+import { authenticateApiKey } from "./api-keys";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production.");
+  }
+  // Development fallback: sessions simply don't survive a server restart
+  return randomBytes(32).toString("hex");
+}
+
+export function setupAuth(app: Express, storage: IStorage) {
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: "auto",
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use("/api", authenticateApiKey(storage));
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  implement(app, api.register, async (req, res, next) => {
+    try {
+      const { username, password } = validate(registerUserSchema, req.body);
+
+      const existingUser = await storage.getUserByUsername(username);
+      if (existingUser) {
+        throw new ApiError("conflict", "Username already exists", { username: ["Username already exists"] });
+      }
+
+      // The first account bootstraps the installation and becomes admin
+      const isFirstUser = (await storage.getUsers()).length === 0;
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+        role: isFirstUser ? 'admin' : 'viewer',
+      });
+      // New accounts can open the default workspace; admins grant the others
+      await storage.addWorkspaceMember(DEFAULT_WORKSPACE_ID, user.id);
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      sendError(req, res, error, "Failed to register user");
+    }
+  });
+
+  implement(app, api.login, (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) {
+        return sendError(req, res, err, "Failed to log in");
+      }
+      if (!user) {
+        return sendError(req, res, new ApiError("unauthenticated", "Invalid username or password"));
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  implement(app, api.logout, (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.status(204).end();
+      });
+    });
+  });
+
+  implement(app, api.getCurrentUser, (req, res) => {
+    if (!req.isAuthenticated()) {
+      return sendError(req, res, new ApiError("unauthenticated", "Not authenticated"));
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  sendError(req, res, new ApiError("unauthenticated", "Authentication required"));
+}
+
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return sendError(req, res, new ApiError("unauthenticated", "Authentication required"));
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      return sendError(req, res, new ApiError("forbidden", "Insufficient permissions"));
+    }
+    next();
+  };
+}
@@ -0,0 +1,31 @@
+import express from "express";
+import { registerRoutes } from "./routes";
+import { MemStorage } from "./storage";
+import { api } from "@shared/api";
+import { findUndocumentedRoutes } from "./openapi";
+
+// Fails when an /api route has no entry (and so no schemas) in the API contract, or an
+// entry outlives its route. Usage: npm run check:api
+async function checkApiDocs() {
+  const app = express();
+  await registerRoutes(app, new MemStorage());
+  const { undocumented, stale } = findUndocumentedRoutes(app);
+
+  for (const route of undocumented) {
+    console.error(`✗ ${route} has no schema in the API contract (shared/api.ts)`);
+  }
+  for (const route of stale) {
+    console.error(`✗ ${route} is in the API contract but not registered`);
+  }
+
+  if (undocumented.length > 0 || stale.length > 0) {
+    process.exit(1);
+  }
+  console.log(`✓ All ${Object.keys(api).length} API routes are documented`);
+  process.exit(0);
+}
+
+checkApiDocs().catch((error) => {
+  console.error("✗ API route check failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,15 @@
+import type { Express, RequestHandler } from "express";
+import type { ParamsDictionary } from "express-serve-static-core";
+import type { ApiEndpoint, ApiOutput } from "@shared/api";
+import { requirePermission } from "./auth";
+
+// A route handler that can only send the endpoint's declared response
+export type ApiHandler<E extends ApiEndpoint> = RequestHandler<ParamsDictionary, ApiOutput<E>>;
+
+// Registers `handlers` at the endpoint's method and path, behind its permission if it declares one
+export function implement<E extends ApiEndpoint>(app: Express, endpoint: E, ...handlers: ApiHandler<E>[]) {
+  const chain: RequestHandler[] = endpoint.permission
+    ? [requirePermission(endpoint.permission), ...handlers]
+    : handlers;
+  app[endpoint.method](endpoint.path, ...chain);
+}
@@ -0,0 +1,21 @@
+// Spreadsheet apps run cells starting with these as formulas, so exported text that
+// does is prefixed with a quote to stay plain text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// One CSV cell (RFC 4180). Dates are written as ISO timestamps and objects as JSON.
+export function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+
+  let text = value instanceof Date ? value.toISOString()
+    : typeof value === "object" ? JSON.stringify(value)
+    : String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = "'" + text;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One CSV line, including its line break
+export function csvRow(values: unknown[]): string {
+  return values.map(csvValue).join(",") + "\r\n";
+}
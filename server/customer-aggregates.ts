@@ -0,0 +1,34 @@
+import { DEFAULT_SEGMENT_THRESHOLDS, type SegmentThresholds } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export type CustomerAggregatesRecompute = {
+  customers: number;
+  thresholds: SegmentThresholds;
+};
+
+// Re-derives customer totals, segments and churn risk. New thresholds are stored on the
+// workspace first so incremental runs after order writes segment customers the same way.
+export async function recomputeCustomerAggregates(
+  storage: IStorage,
+  options: { customerIds?: number[]; thresholds?: SegmentThresholds } = {},
+): Promise<CustomerAggregatesRecompute> {
+  const workspace = options.thresholds
+    ? await storage.updateWorkspace(storage.workspaceId, { segmentThresholds: options.thresholds })
+    : await storage.getWorkspace(storage.workspaceId);
+
+  const customers = await storage.recomputeCustomerAggregates(options.customerIds);
+  return {
+    customers: customers.length,
+    thresholds: workspace?.segmentThresholds ?? DEFAULT_SEGMENT_THRESHOLDS,
+  };
+}
+
+// Brings one customer in line with an order that was just created or cancelled.
+// The order write already succeeded, so a failed recompute is only logged.
+export async function recomputeCustomerAfterOrderWrite(storage: IStorage, customerId: number): Promise<void> {
+  try {
+    await storage.recomputeCustomerAggregates([customerId]);
+  } catch (error) {
+    console.error("Failed to recompute customer aggregates:", error);
+  }
+}
@@ -5,11 +5,17 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+// Without DATABASE_URL the server falls back to MemStorage, so the pool is
+// created lazily by the driver and only fails once a query is actually issued.
+export const isDatabaseConfigured = Boolean(process.env.DATABASE_URL);
+
+export function assertDatabaseConfigured() {
+  if (!isDatabaseConfigured) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
 }
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+export const db = drizzle({ client: pool, schema });
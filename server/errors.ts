@@ -0,0 +1,98 @@
+import type { Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+import { ZodError, type ZodTypeAny, type z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { API_ERROR_STATUS, REQUEST_ID_HEADER, type ApiErrorBody, type ApiErrorCode, type FieldErrors } from "@shared/errors";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by assignRequestId before any route runs
+      requestId: string;
+    }
+  }
+}
+
+// An error the client can act on, sent as-is in the error envelope
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(readonly code: ApiErrorCode, message: string, readonly fieldErrors?: FieldErrors) {
+    super(message);
+    this.name = "ApiError";
+    this.status = API_ERROR_STATUS[code];
+  }
+}
+
+export function validationError(error: ZodError): ApiError {
+  const fieldErrors: FieldErrors = {};
+  for (const issue of error.issues) {
+    if (issue.path.length === 0) continue;
+    const field = issue.path.join(".");
+    (fieldErrors[field] ??= []).push(issue.message);
+  }
+  return new ApiError("validation_error", fromZodError(error).message, fieldErrors);
+}
+
+// Parses route params, a query string or a body, throwing a validation error on bad input
+export function validate<T extends ZodTypeAny>(schema: T, input: unknown): z.infer<T> {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    throw validationError(parsed.error);
+  }
+  return parsed.data;
+}
+
+// Reuses a caller-supplied request id so one request can be followed across services
+const CLIENT_REQUEST_ID = /^[\w.-]{1,64}$/;
+
+export function assignRequestId(req: Request, res: Response, next: NextFunction) {
+  const supplied = req.get(REQUEST_ID_HEADER);
+  req.requestId = supplied && CLIENT_REQUEST_ID.test(supplied) ? supplied : randomUUID();
+  res.setHeader(REQUEST_ID_HEADER, req.requestId);
+  next();
+}
+
+function sendEnvelope(req: Request, res: Response, status: number, error: Omit<ApiErrorBody["error"], "requestId">) {
+  const body: ApiErrorBody = { error: { ...error, requestId: req.requestId } };
+  res.status(status).json(body);
+}
+
+// Sends `error` in the error envelope. Errors that aren't ApiErrors are logged and
+// reported as `fallbackMessage` so internals never reach the client.
+export function sendError(req: Request, res: Response, error: unknown, fallbackMessage = "Internal server error") {
+  if (error instanceof ZodError) {
+    error = validationError(error);
+  }
+
+  if (error instanceof ApiError) {
+    return sendEnvelope(req, res, error.status, {
+      code: error.code,
+      message: error.message,
+      ...(error.fieldErrors && Object.keys(error.fieldErrors).length > 0 && { fieldErrors: error.fieldErrors }),
+    });
+  }
+
+  // Rejections from express.json(), e.g. malformed or oversized bodies
+  const httpError = error as { type?: string; status?: number; expose?: boolean; message?: string };
+  if (httpError?.type === "entity.parse.failed") {
+    return sendEnvelope(req, res, 400, { code: "invalid_json", message: "Request body is not valid JSON" });
+  }
+  if (httpError?.type === "entity.too.large") {
+    return sendEnvelope(req, res, 413, { code: "payload_too_large", message: "Request body is too large" });
+  }
+  if (httpError?.expose && httpError.status && httpError.status < 500) {
+    return sendEnvelope(req, res, httpError.status, { code: "bad_request", message: httpError.message ?? "Bad request" });
+  }
+
+  console.error(`[${req.requestId}] ${req.method} ${req.path} failed:`, error);
+  sendEnvelope(req, res, 500, { code: "internal_error", message: fallbackMessage });
+}
+
+// Last handler in the chain, for errors passed to next() or thrown synchronously
+export function errorHandler(err: unknown, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) {
+    return next(err);
+  }
+  sendError(req, res, err);
+}
@@ -0,0 +1,266 @@
+import type { Response } from "express";
+import ExcelJS from "exceljs";
+import {
+  customerQuerySchema, recommendationQuerySchema,
+  type CustomerWithPredictions, type ExportEntity, type ExportFormat, type ExportQuery, type MLPrediction, type Order,
+  type ProductRecommendationWithProducts,
+} from "@shared/schema";
+import type { SalesForecastPoint } from "@shared/api";
+import type { IStorage } from "./storage";
+import { mlEngine } from "./ml-engine";
+import { csvRow } from "./csv";
+
+// Rows read from storage per query
+const EXPORT_PAGE_SIZE = 500;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+// Column name to value, in file order
+type ExportColumns<T> = Record<string, (row: T) => unknown>;
+
+// Rows of type T, filtered by a query of type Q
+export interface ExportTable<T, Q = ExportQuery> {
+  columns: ExportColumns<T>;
+  // Passes the rows to `handle` a page at a time, in a stable order
+  forEachPage(storage: IStorage, query: Q, now: Date, handle: (rows: T[]) => Promise<void>): Promise<void>;
+}
+
+// Reads offset pages from `fetchPage` until one comes back short
+export async function pageThrough<T>(
+  fetchPage: (limit: number, offset: number) => Promise<T[]>,
+  handle: (rows: T[]) => Promise<void>,
+) {
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    const page = await fetchPage(EXPORT_PAGE_SIZE, offset);
+    await handle(page);
+    if (page.length < EXPORT_PAGE_SIZE) return;
+  }
+}
+
+// Decimal columns come back as strings; exports carry them as numbers
+function decimal(value: string | null | undefined): number | null {
+  return value == null ? null : parseFloat(value);
+}
+
+function predictionColumns(prefix: 'clv' | 'churn', prediction: (customer: CustomerWithPredictions) => MLPrediction | undefined) {
+  return {
+    [prefix === 'clv' ? 'predictedCLV' : 'churnRiskScore']: (customer: CustomerWithPredictions) => decimal(prediction(customer)?.predictedValue),
+    [`${prefix}Confidence`]: (customer: CustomerWithPredictions) => decimal(prediction(customer)?.confidence),
+    [`${prefix}PredictedAt`]: (customer: CustomerWithPredictions) => prediction(customer)?.createdAt ?? null,
+  };
+}
+
+const customersTable: ExportTable<CustomerWithPredictions> = {
+  columns: {
+    id: customer => customer.id,
+    name: customer => customer.name,
+    email: customer => customer.email,
+    segment: customer => customer.segment,
+    churnRisk: customer => customer.churnRisk,
+    isActive: customer => customer.isActive,
+    totalSpent: customer => decimal(customer.totalSpent),
+    orderCount: customer => customer.orderCount,
+    registrationDate: customer => customer.registrationDate,
+    lastPurchaseDate: customer => customer.lastPurchaseDate,
+    ...predictionColumns('clv', customer => customer.clvPrediction),
+    ...predictionColumns('churn', customer => customer.churnPrediction),
+  },
+  forEachPage(storage, { segment, churnRisk }, _now, handle) {
+    return pageThrough(async (limit, offset) => {
+      const page = await storage.searchCustomers(customerQuerySchema.parse({
+        segment, churnRisk, predictions: "true", limit, offset,
+      }));
+      return page.data;
+    }, handle);
+  },
+};
+
+const ordersTable: ExportTable<Order> = {
+  columns: {
+    id: order => order.id,
+    customerId: order => order.customerId,
+    orderDate: order => order.orderDate,
+    status: order => order.status,
+    totalAmount: order => decimal(order.totalAmount),
+    itemCount: order => order.itemCount,
+  },
+  // Newest first; orders placed after the export started are left out, so later pages don't shift under it
+  forEachPage(storage, { status, startDate, endDate }, now, handle) {
+    const filters = { status, startDate, endDate: endDate && endDate < now ? endDate : now };
+    return pageThrough((limit, offset) => storage.getOrders(filters, limit, offset), handle);
+  },
+};
+
+const recommendationsTable: ExportTable<ProductRecommendationWithProducts> = {
+  columns: {
+    productId: rec => rec.productId,
+    productName: rec => rec.productName,
+    productCategory: rec => rec.productCategory,
+    recommendedProductId: rec => rec.recommendedProductId,
+    recommendedProductName: rec => rec.recommendedProductName,
+    type: rec => rec.recommendationType,
+    confidence: rec => decimal(rec.confidence),
+    support: rec => decimal(rec.support),
+    lift: rec => decimal(rec.lift),
+    coOccurrenceCount: rec => rec.coOccurrenceCount,
+    createdAt: rec => rec.createdAt,
+  },
+  forEachPage(storage, { type, category }, _now, handle) {
+    return pageThrough(async (limit, offset) => {
+      const page = await storage.searchProductRecommendations(recommendationQuerySchema.parse({
+        type, category, limit, offset,
+      }));
+      return page.data;
+    }, handle);
+  },
+};
+
+const forecastTable: ExportTable<SalesForecastPoint> = {
+  columns: {
+    date: point => point.date,
+    predictedRevenue: point => point.predicted_revenue,
+    confidenceLower: point => point.confidence_lower,
+    confidenceUpper: point => point.confidence_upper,
+    trend: point => point.trend,
+    seasonalFactor: point => point.seasonal_factor,
+  },
+  // Generated on the fly from the daily sales metrics, like GET /api/forecast/sales
+  async forEachPage(storage, { days }, _now, handle) {
+    await handle(await mlEngine.generateSalesForecast(await storage.getSalesMetrics(), days));
+  },
+};
+
+// The row type behind each export
+interface ExportRows {
+  customers: CustomerWithPredictions;
+  orders: Order;
+  recommendations: ProductRecommendationWithProducts;
+  forecast: SalesForecastPoint;
+}
+
+const EXPORT_TABLES: { [E in ExportEntity]: ExportTable<ExportRows[E]> } = {
+  customers: customersTable,
+  orders: ordersTable,
+  recommendations: recommendationsTable,
+  forecast: forecastTable,
+};
+
+interface ExportWriter {
+  row(values: unknown[]): Promise<void>;
+  end(): Promise<void>;
+}
+
+function csvWriter(res: Response, columns: string[]): ExportWriter {
+  res.write(csvRow(columns));
+  return {
+    row: (values) => write(res, csvRow(values)),
+    end: async () => { res.end(); },
+  };
+}
+
+// One JSON object per line, keyed by column name
+function ndjsonWriter(res: Response, columns: string[]): ExportWriter {
+  return {
+    row: (values) => write(res, JSON.stringify(Object.fromEntries(columns.map((column, i) => [column, values[i] ?? null]))) + "\n"),
+    end: async () => { res.end(); },
+  };
+}
+
+// Shown for date cells, which Excel otherwise displays as bare day numbers
+const XLSX_DATE_FORMAT = "yyyy-mm-dd hh:mm:ss";
+
+// A single worksheet, zipped as it is written so the whole file is never held in memory
+function xlsxWriter(res: Response, columns: string[], sheetName: string): ExportWriter {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true, useSharedStrings: false });
+  const sheet = workbook.addWorksheet(sheetName);
+  sheet.addRow(columns).commit();
+  return {
+    row: async (values) => {
+      const row = sheet.addRow(values.map(xlsxValue));
+      row.eachCell(cell => {
+        if (cell.value instanceof Date) cell.numFmt = XLSX_DATE_FORMAT;
+      });
+      row.commit();
+      await drained(res);
+    },
+    end: async () => {
+      sheet.commit();
+      await workbook.commit();
+    },
+  };
+}
+
+// Cells hold numbers, booleans, dates and text; anything else is written as JSON
+function xlsxValue(value: unknown): ExcelJS.CellValue {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date || typeof value === "number" || typeof value === "boolean" || typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+async function write(res: Response, chunk: string): Promise<void> {
+  if (res.destroyed) {
+    throw new Error("Client closed the connection");
+  }
+  res.write(chunk);
+  await drained(res);
+}
+
+// Waits for a full response buffer to drain, so a slow client doesn't make the export pile up in memory
+async function drained(res: Response): Promise<void> {
+  if (res.destroyed) {
+    throw new Error("Client closed the connection");
+  }
+  if (!res.writableNeedDrain) return;
+  await new Promise<void>(resolve => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+}
+
+// Writes every row of `table` matching `query` to `res` as a `format` file named after
+// `name` and the date
+export async function streamTable<T, Q>(
+  storage: IStorage,
+  table: ExportTable<T, Q>,
+  query: Q,
+  format: ExportFormat,
+  name: string,
+  res: Response,
+  now: Date = new Date(),
+) {
+  const columns = Object.keys(table.columns);
+  const getters = Object.values(table.columns);
+
+  res.setHeader("Content-Type", CONTENT_TYPES[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${name}-${now.toISOString().slice(0, 10)}.${format}"`);
+  const writer = format === "xlsx" ? xlsxWriter(res, columns, name)
+    : format === "ndjson" ? ndjsonWriter(res, columns)
+    : csvWriter(res, columns);
+
+  await table.forEachPage(storage, query, now, async (rows) => {
+    for (const row of rows) {
+      await writer.row(getters.map(value => value(row)));
+    }
+  });
+  await writer.end();
+}
+
+// Writes every row of `entity` matching the query's filters to `res` in the requested format
+export function streamExport<E extends ExportEntity>(
+  storage: IStorage,
+  entity: E,
+  query: ExportQuery,
+  res: Response,
+  now: Date = new Date(),
+) {
+  return streamTable(storage, EXPORT_TABLES[entity], query, query.format, entity, res, now);
+}
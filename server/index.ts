@@ -1,10 +1,16 @@
 console.log('DATABASE_URL:', process.env.DATABASE_URL);
 import 'dotenv/config';
-import express, { type Request, Response, NextFunction } from "express";
+import express from "express";
 import { registerRoutes } from "./routes";
+import { storage, MemStorage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
+import { assignRequestId, errorHandler } from "./errors";
+import { startWebhookRetries } from "./webhooks";
+import { startJobWorker } from "./jobs";
+import { startScheduler } from "./scheduler";
 
 const app = express();
+app.use(assignRequestId);
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -40,14 +46,16 @@ app.use((req, res, next) => {
 
 (async () => {
   const server = await registerRoutes(app);
+  startWebhookRetries(storage);
+  await startJobWorker(storage);
+  await startScheduler(storage);
 
-  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
-    const status = err.status || err.statusCode || 500;
-    const message = err.message || "Internal Server Error";
+  if (storage instanceof MemStorage) {
+    const summary = await storage.seed();
+    log(`DATABASE_URL not set, using in-memory storage seeded with ${summary.customers} customers and ${summary.orders} orders`);
+  }
 
-    res.status(status).json({ message });
-    throw err;
-  });
+  app.use(errorHandler);
 
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ChurnRiskLevel } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { ensureDefaultWorkspace } from "./workspace";
+import { generateMLInsights } from "./insights";
+
+async function customerWith(
+  storage: MemStorage,
+  name: string,
+  churnRisk: ChurnRiskLevel,
+  totalSpent: string,
+  predictions: { churn?: [string, string]; clv?: [string, string]; expiresAt?: Date },
+) {
+  const customer = await storage.createCustomer({ name, email: `${name}@example.com` });
+  await storage.updateCustomer(customer.id, { churnRisk, totalSpent });
+  for (const predictionType of ['churn', 'clv'] as const) {
+    const prediction = predictions[predictionType];
+    if (!prediction) continue;
+    const [predictedValue, confidence] = prediction;
+    await storage.createMLPrediction({
+      customerId: customer.id, predictionType, predictedValue, confidence, expiresAt: predictions.expiresAt,
+    });
+  }
+  return customer.id;
+}
+
+describe("generateMLInsights", () => {
+  it("totals value at risk and unrealized lifetime value over the predicted customers", async () => {
+    const storage = new MemStorage();
+    await ensureDefaultWorkspace(storage);
+    const a = await customerWith(storage, "a", "high", "100.00", { churn: ["0.50", "0.8000"], clv: ["400.00", "0.9000"] });
+    const b = await customerWith(storage, "b", "high", "300.00", { churn: ["0.90", "0.6000"] });
+    await customerWith(storage, "c", "high", "0.00", { churn: ["0.90", "0.9000"], expiresAt: new Date(Date.now() - 1000) });
+    const d = await customerWith(storage, "d", "low", "100.00", { clv: ["250.00", "0.9000"] });
+    await customerWith(storage, "e", "low", "500.00", { clv: ["400.00", "0.9000"] });
+
+    const insights = await generateMLInsights(storage);
+    const churn = insights.find(insight => insight.type === 'churn')!;
+    const revenue = insights.find(insight => insight.type === 'revenue')!;
+
+    // 0.5 × 400 predicted CLV and 0.9 × 300 spent
+    assert.equal(churn.estimatedImpact, 470);
+    assert.deepEqual(churn.customerIds, [b, a]);
+    assert.equal(churn.confidence, 0.7);
+    assert.match(churn.description, /^\$700\b.* 2 high-risk customers$/);
+
+    assert.equal(revenue.estimatedImpact, 150);
+    assert.deepEqual(revenue.customerIds, [d]);
+    assert.match(revenue.impact, /\(\+15% revenue\)/);
+    assert.deepEqual(insights.map(insight => insight.type), ['churn', 'revenue']);
+  });
+
+  it("ranks cross-sell pairs with an active partner by expected revenue", async () => {
+    const storage = new MemStorage();
+    await ensureDefaultWorkspace(storage);
+    const p = await storage.createProduct({ name: "P", category: "home", price: "10.00" });
+    const q = await storage.createProduct({ name: "Q", category: "home", price: "20.00" });
+    const r = await storage.createProduct({ name: "R", category: "home", price: "50.00", isActive: false });
+    const recommend = (productId: number, recommendedProductId: number, confidence: string) =>
+      storage.createProductRecommendation({
+        productId, recommendedProductId, recommendationType: 'cross_sell', confidence, coOccurrenceCount: 4,
+      });
+    await recommend(q.id, p.id, "0.2500");
+    await recommend(p.id, q.id, "0.5000");
+    await recommend(p.id, r.id, "0.5000");
+
+    const [crossSell] = await generateMLInsights(storage);
+
+    // 4 orders of P without Q × 0.5 × $20, and 12 of Q without P × 0.25 × $10
+    assert.equal(crossSell.type, 'cross_sell');
+    assert.equal(crossSell.estimatedImpact, 70);
+    assert.equal(crossSell.confidence, 0.375);
+    assert.deepEqual(crossSell.productIds, [p.id, q.id]);
+    assert.equal(crossSell.description, "P and Q were bought together in 4 orders");
+  });
+});
@@ -0,0 +1,125 @@
+import type { MLInsight } from "@shared/schema";
+import { mlEngine } from "./ml-engine";
+import { startOfUTCDay, type IStorage, type InsightTotals } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FORECAST_DAYS = 30;
+// Customers or products linked from one insight
+const MAX_LINKED = 20;
+
+const currency = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  notation: 'compact',
+  maximumFractionDigits: 1,
+});
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+// Expected revenue lost to churn among high-risk customers, weighted by churn probability
+function churnInsight({ atRisk }: InsightTotals): MLInsight | null {
+  if (atRisk.count === 0) return null;
+
+  return {
+    type: 'churn',
+    title: 'Churn Risk Alert',
+    description: `${currency.format(atRisk.lifetimeValue)} of predicted lifetime value sits with ${plural(atRisk.count, 'high-risk customer')}`,
+    impact: `Retain up to ${currency.format(atRisk.value)} in revenue`,
+    estimatedImpact: atRisk.value,
+    confidence: atRisk.confidence,
+    actionable: true,
+    customerIds: atRisk.topCustomerIds,
+    productIds: [],
+  };
+}
+
+// Predicted lifetime value not yet realized by low-risk customers
+function revenueInsight({ growing, revenueToDate }: InsightTotals): MLInsight | null {
+  if (growing.count === 0) return null;
+
+  const growth = revenueToDate > 0 ? Math.round((growing.value / revenueToDate) * 100) : 0;
+  const share = growth > 0 ? ` (+${growth}% revenue)` : '';
+
+  return {
+    type: 'revenue',
+    title: 'Revenue Opportunity',
+    description: `Predicted lifetime value exceeds spend to date for ${plural(growing.count, 'low-risk customer')}`,
+    impact: `Potential ${currency.format(growing.value)}${share}`,
+    estimatedImpact: growing.value,
+    confidence: growing.confidence,
+    actionable: true,
+    customerIds: growing.topCustomerIds,
+    productIds: [],
+  };
+}
+
+// Revenue from orders that contain a product but not its cross-sell partner, if the
+// partner were added at the recommendation's confidence
+function crossSellInsight({ crossSell }: InsightTotals): MLInsight | null {
+  const top = crossSell.topPair;
+  if (!top) return null;
+
+  return {
+    type: 'cross_sell',
+    title: 'Cross-sell Opportunity',
+    description: `${top.productName} and ${top.recommendedProductName} were bought together in ${plural(top.coOccurrenceCount, 'order')}`,
+    impact: `Up to ${currency.format(crossSell.expectedRevenue)} from ${plural(crossSell.count, 'product pair')}`,
+    estimatedImpact: crossSell.expectedRevenue,
+    confidence: crossSell.confidence,
+    actionable: true,
+    customerIds: [],
+    productIds: crossSell.topProductIds,
+  };
+}
+
+// Next 30 days of forecast revenue against the last 30 days. Confidence is the accuracy
+// of the same model forecasting the last 30 days from the days before them.
+async function forecastInsight(storage: IStorage): Promise<MLInsight | null> {
+  const today = startOfUTCDay(new Date());
+  const history = await storage.getSalesMetrics(new Date(today.getTime() - 90 * DAY_MS), today);
+  if (history.length < FORECAST_DAYS * 2) return null;
+
+  const forecastRevenue = async (metrics: typeof history) =>
+    sum((await mlEngine.generateSalesForecast([...metrics], FORECAST_DAYS)).map(day => day.predicted_revenue));
+
+  const recentRevenue = sum(history.slice(-FORECAST_DAYS).map(metric => parseFloat(metric.revenue)));
+  if (recentRevenue <= 0) return null;
+
+  const projected = await forecastRevenue(history);
+  const backtest = await forecastRevenue(history.slice(0, -FORECAST_DAYS));
+  const estimatedImpact = projected - recentRevenue;
+  const change = Math.round((estimatedImpact / recentRevenue) * 100);
+
+  return {
+    type: 'forecast',
+    title: 'Sales Forecast',
+    description: `Next ${FORECAST_DAYS} days projected at ${currency.format(projected)}, ${change >= 0 ? 'up' : 'down'} ${Math.abs(change)}% on the last ${FORECAST_DAYS} days`,
+    impact: `${estimatedImpact >= 0 ? 'Additional' : 'Shortfall of'} ${currency.format(Math.abs(estimatedImpact))} revenue`,
+    estimatedImpact,
+    confidence: Math.max(0, 1 - Math.abs(backtest - recentRevenue) / recentRevenue),
+    actionable: false,
+    customerIds: [],
+    productIds: [],
+  };
+}
+
+// Builds dashboard insights from the workspace's predictions, recommendations and
+// sales metrics, largest estimated impact first. Insights without data are left out.
+export async function generateMLInsights(storage: IStorage): Promise<MLInsight[]> {
+  const totals = await storage.getInsightTotals(MAX_LINKED);
+
+  const insights = [
+    revenueInsight(totals),
+    churnInsight(totals),
+    crossSellInsight(totals),
+    await forecastInsight(storage),
+  ].filter((insight): insight is MLInsight => insight !== null);
+
+  return insights.sort((a, b) => Math.abs(b.estimatedImpact) - Math.abs(a.estimatedImpact));
+}
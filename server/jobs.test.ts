@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage, type IStorage } from "./storage";
+import { JOB_LEASE_MS } from "./jobs";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+const LEASE = new Date(NOW.getTime() + JOB_LEASE_MS);
+
+function queue(storage: IStorage, createdAt: Date) {
+  return storage.createJob({ type: "analyze_churn", createdAt });
+}
+
+describe("claimNextJob", () => {
+  it("claims the oldest queued job of any workspace, once", async () => {
+    const storage = new MemStorage();
+    const newer = await queue(storage, new Date("2026-10-19T11:00:00Z"));
+    const older = await queue(storage.forWorkspace(2), new Date("2026-10-19T10:00:00Z"));
+
+    const first = await storage.claimNextJob(LEASE);
+    assert.equal(first?.id, older.id);
+    assert.equal(first?.status, "running");
+    assert.deepEqual(first?.lockedUntil, LEASE);
+
+    assert.equal((await storage.claimNextJob(LEASE))?.id, newer.id);
+    assert.equal(await storage.claimNextJob(LEASE), undefined);
+  });
+});
+
+describe("requeueExpiredJobs", () => {
+  it("leaves jobs whose lease is live and requeues lapsed ones", async () => {
+    const storage = new MemStorage();
+    await queue(storage, new Date("2026-10-19T10:00:00Z"));
+    await queue(storage, new Date("2026-10-19T11:00:00Z"));
+    const live = await storage.claimNextJob(LEASE);
+    const lapsed = await storage.claimNextJob(new Date(NOW.getTime() - 1));
+    await storage.updateJob(lapsed!.id, { progress: 40 });
+
+    assert.equal(await storage.requeueExpiredJobs(NOW), 1);
+    assert.equal((await storage.getJob(live!.id))?.status, "running");
+
+    const requeued = await storage.getJob(lapsed!.id);
+    assert.equal(requeued?.status, "queued");
+    assert.equal(requeued?.progress, 0);
+    assert.equal(requeued?.startedAt, null);
+    assert.equal(requeued?.lockedUntil, null);
+  });
+
+  it("cancels lapsed jobs that were asked to stop", async () => {
+    const storage = new MemStorage();
+    await queue(storage, NOW);
+    const job = await storage.claimNextJob(new Date(NOW.getTime() - 1));
+    await storage.cancelJob(job!.id);
+
+    assert.equal(await storage.requeueExpiredJobs(NOW), 0);
+    const cancelled = await storage.getJob(job!.id);
+    assert.equal(cancelled?.status, "cancelled");
+    assert.deepEqual(cancelled?.finishedAt, NOW);
+  });
+});
+
+describe("renewJobLease", () => {
+  it("keeps a running job from being requeued", async () => {
+    const storage = new MemStorage();
+    await queue(storage, NOW);
+    const job = await storage.claimNextJob(new Date(NOW.getTime() - 1));
+
+    await storage.renewJobLease(job!.id, LEASE);
+    assert.equal(await storage.requeueExpiredJobs(NOW), 0);
+    assert.deepEqual((await storage.getJob(job!.id))?.lockedUntil, LEASE);
+  });
+
+  it("does nothing once the job has finished", async () => {
+    const storage = new MemStorage();
+    await queue(storage, NOW);
+    const job = await storage.claimNextJob(LEASE);
+    await storage.updateJob(job!.id, { status: "succeeded", finishedAt: NOW, lockedUntil: null });
+
+    await storage.renewJobLease(job!.id, LEASE);
+    assert.equal((await storage.getJob(job!.id))?.lockedUntil, null);
+  });
+});
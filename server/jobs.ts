@@ -0,0 +1,168 @@
+import type {
+  AnalyzeChurnResult, CompactPredictionsResult, GenerateCLVResult, GenerateRecommendationsResult, InsertJob, Job, JobType,
+  RefreshExpiredPredictionsResult, RetrainModelsResult,
+} from "@shared/schema";
+import type { Permission } from "@shared/permissions";
+import type { IStorage } from "./storage";
+import { ApiError } from "./errors";
+import { publishLiveEvent } from "./live-events";
+import { recordSystemAudit } from "./audit";
+import {
+  analyzeChurnJob, compactPredictionsJob, generateCLVJob, generateRecommendationsJob, refreshExpiredPredictionsJob, retrainModelsJob,
+} from "./ml-jobs";
+
+// Fallback for jobs queued by another server process; jobs queued here start right away
+const POLL_MS = 5 * 1000;
+// A running job's lease is renewed every JOB_HEARTBEAT_MS. Once it lapses for
+// JOB_LEASE_MS, the process running it is assumed gone and any worker requeues the job.
+export const JOB_LEASE_MS = 60 * 1000;
+const JOB_HEARTBEAT_MS = 15 * 1000;
+
+export interface JobContext {
+  // Scoped to the job's workspace
+  storage: IStorage;
+  job: Job;
+  // Records progress as a percentage. Throws JobCancelledError once a cancel was
+  // requested, so handlers should call it between units of work.
+  progress(percent: number): Promise<void>;
+}
+
+interface JobResults {
+  retrain_models: RetrainModelsResult;
+  analyze_churn: AnalyzeChurnResult;
+  refresh_expired_predictions: RefreshExpiredPredictionsResult;
+  generate_recommendations: GenerateRecommendationsResult;
+  compact_predictions: CompactPredictionsResult;
+  generate_clv: GenerateCLVResult;
+}
+
+const JOB_HANDLERS: { [T in JobType]: (context: JobContext) => Promise<JobResults[T]> } = {
+  retrain_models: retrainModelsJob,
+  analyze_churn: analyzeChurnJob,
+  refresh_expired_predictions: refreshExpiredPredictionsJob,
+  generate_recommendations: generateRecommendationsJob,
+  compact_predictions: compactPredictionsJob,
+  generate_clv: generateCLVJob,
+};
+
+// Needed to cancel a job; the same permission its endpoint requires to start it
+export const JOB_PERMISSIONS: Record<JobType, Permission> = {
+  retrain_models: "models:retrain",
+  analyze_churn: "predictions:generate",
+  refresh_expired_predictions: "predictions:generate",
+  generate_recommendations: "recommendations:generate",
+  compact_predictions: "predictions:generate",
+  generate_clv: "predictions:generate",
+};
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job was cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+export function isJobActive(job: Job): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+// Set once the worker is running
+let wakeWorker = () => {};
+
+// Records a queued job and starts it as soon as the worker is free
+export async function enqueueJob(storage: IStorage, insertJob: InsertJob): Promise<Job> {
+  const job = await storage.createJob(insertJob);
+  publishJob(storage, job);
+  wakeWorker();
+  return job;
+}
+
+// Runs queued jobs one at a time, in any workspace. Jobs whose worker stopped, here or
+// in another process, are queued again once their lease lapses; their handlers must be
+// safe to run twice.
+export async function startJobWorker(storage: IStorage) {
+  let running = false;
+  const drain = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const requeued = await storage.requeueExpiredJobs(new Date());
+      if (requeued > 0) {
+        console.log(`Requeued ${requeued} interrupted job(s)`);
+      }
+      for (let job = await claimNextJob(storage); job; job = await claimNextJob(storage)) {
+        await runJob(storage.forWorkspace(job.workspaceId), job);
+      }
+    } catch (error) {
+      console.error("Job worker failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  wakeWorker = () => void drain();
+  setInterval(drain, POLL_MS);
+  void drain();
+}
+
+function claimNextJob(storage: IStorage): Promise<Job | undefined> {
+  return storage.claimNextJob(new Date(Date.now() + JOB_LEASE_MS));
+}
+
+async function runJob(storage: IStorage, job: Job) {
+  publishJob(storage, job);
+  const heartbeat = setInterval(() => {
+    storage.renewJobLease(job.id, new Date(Date.now() + JOB_LEASE_MS))
+      .catch(error => console.error(`Failed to renew the lease of job ${job.id}:`, error));
+  }, JOB_HEARTBEAT_MS);
+
+  const context: JobContext = {
+    storage,
+    job,
+    progress: async (percent) => {
+      const current = await storage.getJob(job.id);
+      if (!current || current.cancelRequested) {
+        throw new JobCancelledError();
+      }
+      // 100 is kept for when the result is saved
+      const updated = await storage.updateJob(job.id, { progress: Math.min(99, Math.round(percent)) });
+      if (updated) publishJob(storage, updated);
+    },
+  };
+
+  let outcome: Partial<Job>;
+  try {
+    const result = await JOB_HANDLERS[job.type](context);
+    outcome = { status: 'succeeded', progress: 100, result };
+  } catch (error) {
+    if (error instanceof JobCancelledError) {
+      outcome = { status: 'cancelled' };
+    } else {
+      console.error(`Job ${job.id} (${job.type}) failed:`, error);
+      // Unexpected errors may carry internals, so only ApiError messages are shown to users
+      outcome = { status: 'failed', error: error instanceof ApiError ? error.message : "Unexpected error while running the job" };
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  const finished = await storage.updateJob(job.id, { ...outcome, finishedAt: new Date(), lockedUntil: null });
+  if (finished) publishJob(storage, finished);
+  await recordSystemAudit(storage, {
+    action: 'job.finished',
+    targetType: 'job',
+    targetId: job.id,
+    before: { status: 'running' },
+    after: { status: outcome.status, error: outcome.error },
+    metadata: { type: job.type, createdBy: job.createdBy, scheduleId: job.scheduleId },
+  });
+}
+
+function publishJob(storage: IStorage, job: Job) {
+  publishLiveEvent(storage, "jobs.changed", {
+    jobId: job.id,
+    type: job.type,
+    status: job.status,
+    progress: job.progress,
+  });
+}
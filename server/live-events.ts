@@ -0,0 +1,49 @@
+import { EventEmitter } from "events";
+import type { Request, Response } from "express";
+import type { LiveEvent, LiveEventType } from "@shared/api";
+import type { IStorage } from "./storage";
+
+// Comment lines keep idle connections from being closed by proxies
+const HEARTBEAT_MS = 25 * 1000;
+// How long browsers wait before reconnecting a dropped stream
+const RECONNECT_MS = 5 * 1000;
+
+const bus = new EventEmitter();
+// One listener per open stream
+bus.setMaxListeners(0);
+
+// Tells every stream open on the storage's workspace that `type` changed
+export function publishLiveEvent<T extends LiveEventType>(
+  storage: IStorage,
+  type: T,
+  data: Extract<LiveEvent, { type: T }>["data"],
+) {
+  bus.emit("event", { type, workspaceId: storage.workspaceId, data } as LiveEvent);
+}
+
+// Keeps the response open as a text/event-stream of the active workspace's events,
+// each named after its type with the JSON event as data
+export function streamLiveEvents(req: Request, res: Response) {
+  const workspaceId = req.workspace.id;
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Stops nginx-style proxies from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.write(`retry: ${RECONNECT_MS}\n\n`);
+
+  const send = (event: LiveEvent) => {
+    if (event.workspaceId !== workspaceId) return;
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_MS);
+
+  bus.on("event", send);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    bus.off("event", send);
+  });
+}
@@ -1,15 +1,15 @@
 import { 
   type Customer, type Order, type OrderItem, 
   type InsertMLPrediction, type InsertProductRecommendation,
-  type SalesMetric 
+  type SalesMetric, DEFAULT_WORKSPACE_ID
 } from "@shared/schema";
+import type { SalesForecastPoint } from "@shared/api";
 
 export interface MLEngine {
   generateCLVPrediction(customer: Customer): Promise<InsertMLPrediction>;
   analyzeChurnRisk(customers: Customer[]): Promise<InsertMLPrediction[]>;
-  generateSalesForecast(historicalData: SalesMetric[], days: number): Promise<any[]>;
+  generateSalesForecast(historicalData: SalesMetric[], days: number): Promise<SalesForecastPoint[]>;
   generateProductRecommendations(orders: Order[], orderItems: OrderItem[]): Promise<InsertProductRecommendation[]>;
-  retrainModel(modelType: string): Promise<{ success: boolean; accuracy: number; timestamp: Date }>;
 }
 
 class MLEngineImpl implements MLEngine {
@@ -99,7 +99,7 @@ class MLEngineImpl implements MLEngine {
     }));
   }
 
-  async generateSalesForecast(historicalData: SalesMetric[], days: number): Promise<any[]> {
+  async generateSalesForecast(historicalData: SalesMetric[], days: number): Promise<SalesForecastPoint[]> {
     if (historicalData.length < 7) {
       // Generate sample historical data for demonstration
       const sampleData = this.generateSampleSalesData(30);
@@ -109,7 +109,7 @@ class MLEngineImpl implements MLEngine {
     return this.calculateForecast(historicalData, days);
   }
 
-  private calculateForecast(historicalData: SalesMetric[], days: number): any[] {
+  private calculateForecast(historicalData: SalesMetric[], days: number): SalesForecastPoint[] {
     // Simple time series forecasting
     const sortedData = historicalData.sort((a, b) => 
       new Date(a.date).getTime() - new Date(b.date).getTime()
@@ -125,7 +125,7 @@ class MLEngineImpl implements MLEngine {
       : 0;
 
     // Generate forecast
-    const forecast = [];
+    const forecast: SalesForecastPoint[] = [];
     const lastDate = new Date(sortedData[sortedData.length - 1]?.date || Date.now());
     
     for (let i = 1; i <= days; i++) {
@@ -220,24 +220,6 @@ class MLEngineImpl implements MLEngine {
       .slice(0, 50); // Top 50 recommendations
   }
 
-  async retrainModel(modelType: string): Promise<{ success: boolean; accuracy: number; timestamp: Date }> {
-    // Simulate model retraining
-    await new Promise(resolve => setTimeout(resolve, 2000)); // Simulate training time
-    
-    const accuracies = {
-      'clv': 0.87 + Math.random() * 0.08, // 87-95%
-      'churn': 0.82 + Math.random() * 0.10, // 82-92%
-      'forecast': 0.91 + Math.random() * 0.05, // 91-96%
-      'recommendations': 0.79 + Math.random() * 0.12, // 79-91%
-    };
-
-    return {
-      success: true,
-      accuracy: accuracies[modelType as keyof typeof accuracies] || 0.85,
-      timestamp: new Date(),
-    };
-  }
-
   private estimateCustomerLifespan(features: any): number {
     // Simple customer lifespan estimation based on behavior
     let lifespan = 2; // Base 2 years
@@ -281,6 +263,7 @@ class MLEngineImpl implements MLEngine {
       
       data.push({
         id: i + 1,
+        workspaceId: DEFAULT_WORKSPACE_ID,
         date,
         revenue: revenue.toFixed(2),
         orderCount,
@@ -0,0 +1,55 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { ensureDefaultWorkspace } from "./workspace";
+import { rebuildRecommendations } from "./ml-jobs";
+
+// Three orders pair A with B, one cancelled order pairs A with C, and C and D are also
+// each bought alone
+async function storageWithOrders() {
+  const storage = new MemStorage();
+  await ensureDefaultWorkspace(storage);
+  const customer = await storage.createCustomer({ name: "Test Customer", email: "test@example.com" });
+  const [a, b, c, d] = await Promise.all(["A", "B", "C", "D"].map(name =>
+    storage.createProduct({ name, category: "home", price: "10.00" })
+  ));
+  const order = (...productIds: number[]) => storage.createOrderWithItems({
+    customerId: customer.id,
+    items: productIds.map(productId => ({ productId, quantity: 1, unitPrice: "10.00" })),
+  });
+
+  for (let i = 0; i < 3; i++) await order(a.id, b.id);
+  await order(c.id);
+  await order(d.id);
+  const cancelled = await order(a.id, c.id);
+  await storage.cancelOrder(cancelled.id);
+
+  return { storage, products: { a, b, c } };
+}
+
+describe("rebuildRecommendations", () => {
+  it("replaces the stored recommendations instead of adding to them", async () => {
+    const { storage } = await storageWithOrders();
+
+    const first = await rebuildRecommendations(storage);
+    const second = await rebuildRecommendations(storage);
+    const stored = await storage.searchProductRecommendations({ limit: 500, offset: 0 });
+
+    assert.ok(first.length > 0);
+    assert.equal(second.length, first.length);
+    assert.equal(stored.total, second.length);
+
+    const pairs = new Set(stored.data.map(rec => `${rec.productId}:${rec.recommendedProductId}:${rec.recommendationType}`));
+    assert.equal(pairs.size, stored.data.length);
+  });
+
+  it("leaves out cancelled orders", async () => {
+    const { storage, products: { a, b, c } } = await storageWithOrders();
+
+    const saved = await rebuildRecommendations(storage);
+    const pairs = saved.map(rec => [rec.productId, rec.recommendedProductId]);
+
+    assert.deepEqual(pairs.sort(), [[a.id, b.id], [b.id, a.id]].sort());
+    assert.ok(!pairs.some(([productId]) => productId === c.id));
+  });
+});
@@ -0,0 +1,213 @@
+import {
+  MODEL_TYPES, RECOMMENDATION_TYPES, customerQuerySchema, generateCLVBatchSchema, retrainModelsSchema,
+  type AnalyzeChurnResult, type CompactPredictionsResult, type CustomerQueryParams, type CustomerWithPredictions,
+  type GenerateCLVResult, type GenerateRecommendationsResult, type MLPrediction, type Order, type ProductRecommendation, type RefreshExpiredPredictionsResult, type RetrainModelsResult,
+} from "@shared/schema";
+import { mlEngine } from "./ml-engine";
+import { evaluateModels } from "./model-evaluation";
+import { emitWebhookEvent } from "./webhooks";
+import { publishLiveEvent } from "./live-events";
+import type { IStorage } from "./storage";
+import type { JobContext } from "./jobs";
+
+// Customers scored and saved between progress reports
+const CUSTOMER_BATCH_SIZE = 200;
+// Orders read per query when mining recommendations
+const ORDER_PAGE_SIZE = 500;
+
+// How long a customer's daily prediction history is kept before compaction drops it
+export const PREDICTION_RETENTION_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Backtests the models named in the job input, reporting progress after each one
+export async function retrainModelsJob({ storage, job, progress }: JobContext): Promise<RetrainModelsResult> {
+  const { modelType } = retrainModelsSchema.parse(job.input);
+  const evaluations = await evaluateModels(
+    storage,
+    modelType === 'all' ? MODEL_TYPES : [modelType],
+    (completed, total) => progress((completed / total) * 100),
+  );
+  const accuracies = evaluations.map(evaluation => parseFloat(evaluation.accuracy));
+  publishLiveEvent(storage, "models.retrained", {
+    modelTypes: evaluations.map(evaluation => evaluation.modelType),
+  });
+
+  return {
+    success: evaluations.length > 0,
+    accuracy: accuracies.length > 0 ? accuracies.reduce((sum, value) => sum + value, 0) / accuracies.length : null,
+    modelTypes: evaluations.map(evaluation => evaluation.modelType),
+    evaluationIds: evaluations.map(evaluation => evaluation.id),
+  };
+}
+
+// Scores churn risk for every customer a batch at a time. A cancelled run keeps the
+// predictions of the batches it already finished.
+export async function analyzeChurnJob({ storage, progress }: JobContext): Promise<AnalyzeChurnResult> {
+  const result: AnalyzeChurnResult = { customers: 0, highRisk: 0, newlyHighRisk: 0 };
+
+  try {
+    await forEachCustomerBatch(storage, {}, async (customers, scanned, total) => {
+      const scored = await scoreChurn(storage, customers);
+      result.customers = scanned;
+      result.highRisk += scored.highRisk;
+      result.newlyHighRisk += scored.newlyHighRisk;
+      await progress((scanned / total) * 100);
+    });
+  } finally {
+    if (result.customers > 0) {
+      publishLiveEvent(storage, "predictions.changed", { predictionType: "churn" });
+    }
+  }
+
+  return result;
+}
+
+// Predicts CLV for every customer, or those of the segment in the job input, a batch at
+// a time. Re-running on the same day replaces that day's predictions instead of adding more.
+export async function generateCLVJob({ storage, job, progress }: JobContext): Promise<GenerateCLVResult> {
+  const { segment } = generateCLVBatchSchema.parse(job.input);
+  let customers = 0;
+  let totalCLV = 0;
+
+  try {
+    await forEachCustomerBatch(storage, { segment }, async (batch, scanned, total) => {
+      for (const customer of batch) {
+        const prediction = await storage.upsertMLPrediction(await mlEngine.generateCLVPrediction(customer));
+        totalCLV += parseFloat(prediction.predictedValue || '0');
+      }
+      customers = scanned;
+      await progress((scanned / total) * 100);
+    });
+  } finally {
+    if (customers > 0) {
+      publishLiveEvent(storage, "predictions.changed", { predictionType: "clv" });
+    }
+  }
+
+  return { customers, averageCLV: customers > 0 ? totalCLV / customers : null };
+}
+
+// Regenerates each customer's latest CLV and churn predictions once they expire.
+// Customers that were never scored are left to the churn analysis and CLV runs.
+export async function refreshExpiredPredictionsJob({ storage, progress }: JobContext): Promise<RefreshExpiredPredictionsResult> {
+  const now = new Date();
+  const expiredCLV = new Set(await storage.getExpiredPredictionCustomerIds('clv', now));
+  const expiredChurn = new Set(await storage.getExpiredPredictionCustomerIds('churn', now));
+  const result: RefreshExpiredPredictionsResult = { customers: 0, clv: 0, churn: 0 };
+
+  try {
+    await forEachCustomerBatch(storage, { predictions: "true" }, async (customers, scanned, total) => {
+      for (const customer of customers.filter(customer => expiredCLV.has(customer.id))) {
+        await storage.upsertMLPrediction(await mlEngine.generateCLVPrediction(customer));
+        result.clv++;
+      }
+
+      const churnCustomers = customers.filter(customer => expiredChurn.has(customer.id));
+      if (churnCustomers.length > 0) {
+        await scoreChurn(storage, churnCustomers);
+        result.churn += churnCustomers.length;
+      }
+
+      result.customers = scanned;
+      await progress((scanned / total) * 100);
+    });
+  } finally {
+    if (result.clv > 0) {
+      publishLiveEvent(storage, "predictions.changed", { predictionType: "clv" });
+    }
+    if (result.churn > 0) {
+      publishLiveEvent(storage, "predictions.changed", { predictionType: "churn" });
+    }
+  }
+
+  return result;
+}
+
+// Thins out prediction history so repeated runs don't grow the table without bound
+export async function compactPredictionsJob({ storage }: JobContext): Promise<CompactPredictionsResult> {
+  const retainSince = new Date(Date.now() - PREDICTION_RETENTION_DAYS * DAY_MS);
+  return { deleted: await storage.compactMLPredictions(retainSince) };
+}
+
+export async function generateRecommendationsJob({ storage }: JobContext): Promise<GenerateRecommendationsResult> {
+  const saved = await rebuildRecommendations(storage);
+  return { count: saved.length, byType: countByType(saved) };
+}
+
+// Mines recommendations from every non-cancelled order, replaces the previous set with
+// them and announces the new set
+export async function rebuildRecommendations(storage: IStorage): Promise<ProductRecommendation[]> {
+  const orders = await fetchMinedOrders(storage);
+  const orderItems = await storage.getOrderItemsForOrders(orders.map(order => order.id));
+
+  const recommendations = await mlEngine.generateProductRecommendations(orders, orderItems);
+  const savedRecommendations = await storage.replaceProductRecommendations(recommendations);
+
+  await emitWebhookEvent(storage, "recommendations.regenerated", {
+    count: savedRecommendations.length,
+    byType: countByType(savedRecommendations),
+  });
+  publishLiveEvent(storage, "recommendations.changed", { count: savedRecommendations.length });
+
+  return savedRecommendations;
+}
+
+async function fetchMinedOrders(storage: IStorage): Promise<Order[]> {
+  const rows: Order[] = [];
+  for (let offset = 0; ; offset += ORDER_PAGE_SIZE) {
+    const page = await storage.getOrders({ statuses: ['pending', 'completed'] }, ORDER_PAGE_SIZE, offset);
+    rows.push(...page);
+    if (page.length < ORDER_PAGE_SIZE) return rows;
+  }
+}
+
+// Saves churn predictions for `customers` and moves their churn risk to match
+async function scoreChurn(
+  storage: IStorage,
+  customers: CustomerWithPredictions[],
+): Promise<{ highRisk: number; newlyHighRisk: number }> {
+  const churnAnalysis = await mlEngine.analyzeChurnRisk(customers);
+  const savedPredictions: MLPrediction[] = [];
+  for (const prediction of churnAnalysis) {
+    savedPredictions.push(await storage.upsertMLPrediction(prediction));
+  }
+  const updatedCustomers = await storage.recomputeCustomerAggregates(customers.map(customer => customer.id));
+
+  // Only customers that just became high risk are announced, not every high-risk score
+  const previousRisk = new Map(customers.map(customer => [customer.id, customer.churnRisk]));
+  let highRisk = 0;
+  let newlyHighRisk = 0;
+  for (const customer of updatedCustomers) {
+    if (customer.churnRisk !== 'high') continue;
+    highRisk++;
+    if (previousRisk.get(customer.id) === 'high') continue;
+    newlyHighRisk++;
+    const prediction = savedPredictions.find(p => p.customerId === customer.id);
+    await emitWebhookEvent(storage, "customer.churn_risk_high", { customer, prediction });
+  }
+  return { highRisk, newlyHighRisk };
+}
+
+// Pages through the customers matching `query` in id order, passing each page along
+// with how many customers have been seen so far and the total
+async function forEachCustomerBatch(
+  storage: IStorage,
+  query: CustomerQueryParams,
+  handle: (customers: CustomerWithPredictions[], scanned: number, total: number) => Promise<void>,
+) {
+  let scanned = 0;
+  for (let offset = 0; ; offset += CUSTOMER_BATCH_SIZE) {
+    const page = await storage.searchCustomers(customerQuerySchema.parse({ ...query, limit: CUSTOMER_BATCH_SIZE, offset }));
+    if (page.data.length === 0) return;
+    scanned += page.data.length;
+    await handle(page.data, scanned, page.total);
+    if (scanned >= page.total) return;
+  }
+}
+
+function countByType(recommendations: ProductRecommendation[]): Record<string, number> {
+  return Object.fromEntries(RECOMMENDATION_TYPES.map(type => [
+    type,
+    recommendations.filter(rec => rec.recommendationType === type).length,
+  ]));
+}
@@ -0,0 +1,279 @@
+import {
+  MODEL_TYPES, customerQuerySchema,
+  type Customer, type ModelEvaluation, type ModelType, type Order
+} from "@shared/schema";
+import { mlEngine } from "./ml-engine";
+import { startOfUTCDay, type IStorage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 500;
+// Churn is measured over the quarter after the cutoff, CLV over the year after it
+const CHURN_HOLDOUT_DAYS = 90;
+const CLV_HOLDOUT_DAYS = 365;
+const FORECAST_HOLDOUT_DAYS = 30;
+// Share of orders, oldest first, used to mine recommendations before testing on the rest
+const RECOMMENDATION_TRAIN_SHARE = 0.8;
+// Fewer holdout samples than this and a type is skipped instead of stored
+const MIN_SAMPLE_SIZE = 10;
+
+type Evaluation = { accuracy: number; metrics: Record<string, number>; sampleSize: number };
+
+type EvaluationData = {
+  now: Date;
+  customers: Customer[];
+  // Non-cancelled orders, oldest first
+  orders: Order[];
+};
+
+async function fetchAllCustomers(storage: IStorage): Promise<Customer[]> {
+  const rows: Customer[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await storage.searchCustomers(customerQuerySchema.parse({ limit: PAGE_SIZE, offset }));
+    rows.push(...page.data);
+    if (page.data.length === 0 || rows.length >= page.total) return rows;
+  }
+}
+
+async function fetchAllOrders(storage: IStorage): Promise<Order[]> {
+  const rows: Order[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await storage.getOrders({}, PAGE_SIZE, offset);
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+  }
+}
+
+function round(value: number, digits = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length; ) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    // Ties share the average of their positions
+    for (let i = start; i <= end; i++) result[order[i].index] = (start + end) / 2;
+    start = end + 1;
+  }
+  return result;
+}
+
+function pearson(xs: number[], ys: number[]): number {
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let covariance = 0, varianceX = 0, varianceY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  });
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : 0;
+}
+
+// The customer as they looked at `cutoff`, with dates moved forward by the time since
+// then so models that measure recency from today see the same gaps
+function snapshotAt(customer: Customer, orders: Order[], cutoff: Date, now: Date): Customer {
+  const shift = now.getTime() - cutoff.getTime();
+  const lastPurchase = orders[orders.length - 1]?.orderDate;
+  return {
+    ...customer,
+    totalSpent: orders.reduce((sum, order) => sum + parseFloat(order.totalAmount), 0).toFixed(2),
+    orderCount: orders.length,
+    registrationDate: new Date(customer.registrationDate.getTime() + shift),
+    lastPurchaseDate: lastPurchase ? new Date(lastPurchase.getTime() + shift) : null,
+    isActive: true,
+  };
+}
+
+// Customers registered before the cutoff with their orders before and after it
+function splitCustomersAt(data: EvaluationData, cutoff: Date) {
+  const ordersByCustomer = new Map<number, Order[]>();
+  for (const order of data.orders) {
+    if (!ordersByCustomer.has(order.customerId)) ordersByCustomer.set(order.customerId, []);
+    ordersByCustomer.get(order.customerId)!.push(order);
+  }
+
+  return data.customers
+    .filter(customer => customer.registrationDate < cutoff)
+    .map(customer => {
+      const customerOrders = ordersByCustomer.get(customer.id) ?? [];
+      const before = customerOrders.filter(order => order.orderDate < cutoff);
+      const after = customerOrders.filter(order => order.orderDate >= cutoff);
+      return { snapshot: snapshotAt(customer, before, cutoff, data.now), before, after };
+    })
+    .filter(({ before }) => before.length > 0);
+}
+
+// Predicts churn for customers as of 90 days ago and checks who has not ordered since
+async function evaluateChurn(data: EvaluationData): Promise<Evaluation | null> {
+  const cutoff = new Date(data.now.getTime() - CHURN_HOLDOUT_DAYS * DAY_MS);
+  const samples = splitCustomersAt(data, cutoff);
+  if (samples.length < MIN_SAMPLE_SIZE) return null;
+
+  const predictions = await mlEngine.analyzeChurnRisk(samples.map(sample => sample.snapshot));
+  let truePositives = 0, falsePositives = 0, falseNegatives = 0, correct = 0;
+  predictions.forEach((prediction, i) => {
+    const predictedChurn = parseFloat(prediction.predictedValue ?? '0') >= 0.5;
+    const churned = samples[i].after.length === 0;
+    if (predictedChurn === churned) correct++;
+    if (predictedChurn && churned) truePositives++;
+    if (predictedChurn && !churned) falsePositives++;
+    if (!predictedChurn && churned) falseNegatives++;
+  });
+
+  const accuracy = correct / samples.length;
+  return {
+    accuracy,
+    metrics: {
+      accuracy: round(accuracy),
+      precision: round(truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0),
+      recall: round(truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0),
+      churnRate: round(samples.filter(sample => sample.after.length === 0).length / samples.length),
+    },
+    sampleSize: samples.length,
+  };
+}
+
+// Predicts CLV for customers as of a year ago and ranks it against what they spent since.
+// Accuracy is the rank correlation, floored at zero.
+async function evaluateCLV(data: EvaluationData): Promise<Evaluation | null> {
+  const cutoff = new Date(data.now.getTime() - CLV_HOLDOUT_DAYS * DAY_MS);
+  const samples = splitCustomersAt(data, cutoff);
+  if (samples.length < MIN_SAMPLE_SIZE) return null;
+
+  const predicted = await Promise.all(samples.map(async sample =>
+    parseFloat((await mlEngine.generateCLVPrediction(sample.snapshot)).predictedValue ?? '0')
+  ));
+  const actual = samples.map(sample => sample.after.reduce((sum, order) => sum + parseFloat(order.totalAmount), 0));
+  const spearman = pearson(ranks(predicted), ranks(actual));
+  const meanAbsoluteError = predicted.reduce((sum, value, i) => sum + Math.abs(value - actual[i]), 0) / samples.length;
+
+  return {
+    accuracy: Math.max(0, spearman),
+    metrics: { spearman: round(spearman), mae: round(meanAbsoluteError, 2) },
+    sampleSize: samples.length,
+  };
+}
+
+// Forecasts the last 30 days of sales metrics from the days before them
+async function evaluateForecast(storage: IStorage): Promise<Evaluation | null> {
+  const history = await storage.getSalesMetrics(undefined, startOfUTCDay(new Date()));
+  const training = history.slice(0, -FORECAST_HOLDOUT_DAYS);
+  const holdout = history.slice(-FORECAST_HOLDOUT_DAYS);
+  if (training.length < FORECAST_HOLDOUT_DAYS || holdout.length < FORECAST_HOLDOUT_DAYS) return null;
+
+  const forecast = await mlEngine.generateSalesForecast([...training], FORECAST_HOLDOUT_DAYS);
+  const actual = holdout.map(metric => parseFloat(metric.revenue));
+  const predicted = forecast.map(day => day.predicted_revenue);
+
+  const meanActual = actual.reduce((sum, value) => sum + value, 0) / actual.length;
+  let squaredError = 0, totalSquares = 0, percentageError = 0, percentageDays = 0;
+  actual.forEach((value, i) => {
+    squaredError += (predicted[i] - value) ** 2;
+    totalSquares += (value - meanActual) ** 2;
+    if (value > 0) {
+      percentageError += Math.abs(predicted[i] - value) / value;
+      percentageDays++;
+    }
+  });
+  if (percentageDays === 0) return null;
+
+  const mape = (percentageError / percentageDays) * 100;
+  return {
+    accuracy: Math.max(0, 1 - mape / 100),
+    metrics: {
+      rmse: round(Math.sqrt(squaredError / actual.length), 2),
+      mape: round(mape, 2),
+      r2: round(totalSquares > 0 ? 1 - squaredError / totalSquares : 0),
+    },
+    sampleSize: actual.length,
+  };
+}
+
+// Mines recommendations from the older 80% of orders and checks, for later orders
+// containing a product, how often they also contain its top recommendation
+async function evaluateRecommendations(storage: IStorage, data: EvaluationData): Promise<Evaluation | null> {
+  const split = Math.floor(data.orders.length * RECOMMENDATION_TRAIN_SHARE);
+  const training = data.orders.slice(0, split);
+  const testing = data.orders.slice(split);
+  if (training.length < MIN_SAMPLE_SIZE || testing.length < MIN_SAMPLE_SIZE) return null;
+
+  const items = await storage.getOrderItemsForOrders(data.orders.map(order => order.id));
+  const trainingIds = new Set(training.map(order => order.id));
+  const recommendations = await mlEngine.generateProductRecommendations(
+    training,
+    items.filter(item => trainingIds.has(item.orderId))
+  );
+
+  // generateProductRecommendations returns rules most confident first
+  const topRecommendation = new Map<number, number>();
+  for (const rec of recommendations) {
+    if (!topRecommendation.has(rec.productId)) topRecommendation.set(rec.productId, rec.recommendedProductId);
+  }
+  if (topRecommendation.size === 0) return null;
+
+  const productsByOrder = new Map<number, Set<number>>();
+  for (const item of items) {
+    if (trainingIds.has(item.orderId)) continue;
+    if (!productsByOrder.has(item.orderId)) productsByOrder.set(item.orderId, new Set());
+    productsByOrder.get(item.orderId)!.add(item.productId);
+  }
+
+  let attempts = 0, hits = 0;
+  productsByOrder.forEach(productIds => {
+    productIds.forEach(productId => {
+      const recommended = topRecommendation.get(productId);
+      if (recommended === undefined) return;
+      attempts++;
+      if (productIds.has(recommended)) hits++;
+    });
+  });
+  if (attempts < MIN_SAMPLE_SIZE) return null;
+
+  const precision = hits / attempts;
+  return {
+    accuracy: precision,
+    metrics: { precision: round(precision), rules: topRecommendation.size },
+    sampleSize: attempts,
+  };
+}
+
+// Backtests each model against the workspace's own history and stores the results.
+// Model types without enough history to evaluate are skipped and keep their last run.
+// `onProgress` is awaited after each model, so it can also abort the run by throwing.
+export async function evaluateModels(
+  storage: IStorage,
+  modelTypes: readonly ModelType[] = MODEL_TYPES,
+  onProgress?: (completed: number, total: number) => Promise<void>,
+): Promise<ModelEvaluation[]> {
+  const orders = (await fetchAllOrders(storage))
+    .filter(order => order.status !== 'cancelled')
+    .sort((a, b) => a.orderDate.getTime() - b.orderDate.getTime() || a.id - b.id);
+  const data: EvaluationData = { now: new Date(), customers: await fetchAllCustomers(storage), orders };
+
+  const evaluators: Record<ModelType, () => Promise<Evaluation | null>> = {
+    churn: () => evaluateChurn(data),
+    clv: () => evaluateCLV(data),
+    forecast: () => evaluateForecast(storage),
+    recommendations: () => evaluateRecommendations(storage, data),
+  };
+
+  const saved: ModelEvaluation[] = [];
+  for (let index = 0; index < modelTypes.length; index++) {
+    const modelType = modelTypes[index];
+    const result = await evaluators[modelType]();
+    if (result) {
+      saved.push(await storage.createModelEvaluation({
+        modelType,
+        accuracy: result.accuracy.toFixed(4),
+        metrics: result.metrics,
+        sampleSize: result.sampleSize,
+      }));
+    }
+    await onProgress?.(index + 1, modelTypes.length);
+  }
+  return saved;
+}
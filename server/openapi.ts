@@ -0,0 +1,165 @@
+import type { Express, Router } from "express";
+import swaggerUi from "swagger-ui-express";
+import { z, ZodOptional, type ZodTypeAny, type AnyZodObject } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { api, API_SCHEMAS, type ApiEndpoint } from "@shared/api";
+import { API_ERROR_STATUS } from "@shared/errors";
+import { PERMISSIONS } from "@shared/permissions";
+
+export const OPENAPI_PATH = "/api/openapi.json";
+export const DOCS_PATH = "/api/docs";
+
+const ApiErrorResponse = z.object({
+  error: z.object({
+    code: z.enum(Object.keys(API_ERROR_STATUS) as [keyof typeof API_ERROR_STATUS]),
+    message: z.string(),
+    fieldErrors: z.record(z.array(z.string())).optional(),
+    requestId: z.string(),
+  }),
+});
+
+// Named schemas end up in components.schemas and are referenced from operations
+const COMPONENTS: Record<string, ZodTypeAny> = { ...API_SCHEMAS, ApiErrorResponse };
+
+// Each endpoint with its contract key, which doubles as the operationId
+const ENDPOINTS = Object.entries(api) as [string, ApiEndpoint][];
+
+type JsonSchema = Record<string, unknown>;
+
+function toJsonSchema(schema: ZodTypeAny, components: Record<string, JsonSchema>): JsonSchema {
+  const { schemas, ...jsonSchema } = zodToJsonSchema(schema, {
+    target: "openApi3",
+    // Query strings and bodies are documented as sent, before coercion and defaults apply
+    effectStrategy: "input",
+    // Unknown keys are stripped rather than rejected, so don't forbid them
+    removeAdditionalStrategy: "strict",
+    allowedAdditionalProperties: undefined,
+    definitions: COMPONENTS,
+    basePath: ["#", "components"],
+    definitionPath: "schemas",
+  }) as JsonSchema & { schemas?: Record<string, JsonSchema> };
+  Object.assign(components, schemas);
+  return jsonSchema;
+}
+
+function parameters(location: "path" | "query", schema: AnyZodObject | undefined, components: Record<string, JsonSchema>) {
+  if (!schema) return [];
+  return Object.entries(schema.shape as Record<string, ZodTypeAny>).map(([name, field]) => ({
+    name,
+    in: location,
+    required: location === "path" || !field.isOptional(),
+    // Optionality is carried by `required`
+    schema: toJsonSchema(field instanceof ZodOptional ? field.unwrap() : field, components),
+    ...(field.description && { description: field.description }),
+  }));
+}
+
+// The same schema under each content type the route can answer with
+function responseContent(operation: ApiEndpoint, schema: JsonSchema) {
+  const contentTypes = ([] as string[]).concat(operation.contentType ?? "application/json");
+  return Object.fromEntries(contentTypes.map(contentType => [contentType, { schema }]));
+}
+
+function errorResponses(operation: ApiEndpoint) {
+  const ref = { $ref: "#/components/schemas/ApiErrorResponse" };
+  const response = (description: string) => ({ description, content: { "application/json": { schema: ref } } });
+  return {
+    ...((operation.params || operation.query || operation.body) && { 400: response("Invalid input") }),
+    ...(!operation.public && { 401: response("Not signed in") }),
+    ...(operation.permission && { 403: response(`Requires the ${PERMISSIONS[operation.permission]} role`) }),
+    ...(operation.params && { 404: response("Not found") }),
+    500: response("Unexpected server error"),
+  };
+}
+
+export function buildOpenApiDocument() {
+  const components: Record<string, JsonSchema> = {};
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const [operationId, operation] of ENDPOINTS) {
+    const path = operation.path.replace(/:(\w+)/g, "{$1}");
+    const status = operation.status ?? 200;
+
+    paths[path] = paths[path] ?? {};
+    paths[path][operation.method] = {
+      tags: [operation.tag],
+      summary: operation.summary,
+      operationId,
+      ...(operation.public && { security: [] }),
+      parameters: [
+        ...parameters("path", operation.params, components),
+        ...parameters("query", operation.query, components),
+      ],
+      ...(operation.body && {
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: toJsonSchema(operation.body, components) } },
+        },
+      }),
+      responses: {
+        [status]: operation.response
+          ? { description: "Success", content: responseContent(operation, toJsonSchema(operation.response, components)) }
+          : { description: "Success" },
+        ...errorResponses(operation),
+      },
+    };
+  }
+
+  // Referenced from every error response
+  toJsonSchema(ApiErrorResponse, components);
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "CommerceDashboard API",
+      version: "1.0.0",
+      description: "Requests run against the active workspace: the X-Workspace-Id header, else the session's workspace, else the default one.",
+    },
+    servers: [{ url: "/" }],
+    security: [{ sessionCookie: [] }, { apiKey: [] }],
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: {
+        sessionCookie: { type: "apiKey", in: "cookie", name: "connect.sid" },
+        apiKey: { type: "http", scheme: "bearer", description: "An API key from Settings. Read keys may only make GET requests." },
+      },
+    },
+  };
+}
+
+// Serves the spec and an explorer whose assets come from node_modules, so both work offline.
+// They are public: the spec describes the API but exposes no data.
+export function registerApiDocs(app: Express) {
+  const document = buildOpenApiDocument();
+  app.get(OPENAPI_PATH, (_req, res) => {
+    res.json(document);
+  });
+  app.use(DOCS_PATH, swaggerUi.serve, swaggerUi.setup(undefined, {
+    customSiteTitle: "CommerceDashboard API",
+    swaggerOptions: { url: OPENAPI_PATH },
+  }));
+}
+
+interface RouteLayer {
+  route?: { path: string; methods: Record<string, boolean> };
+}
+
+// `METHOD /path` for every /api route on the app that the contract doesn't describe,
+// and every endpoint that no longer has a route
+export function findUndocumentedRoutes(app: Express): { undocumented: string[]; stale: string[] } {
+  const stack = ((app as unknown as { _router: Router })._router.stack) as RouteLayer[];
+  const registered = new Set<string>();
+  for (const layer of stack) {
+    if (!layer.route || !layer.route.path.startsWith("/api/") || layer.route.path === OPENAPI_PATH) continue;
+    for (const method of Object.keys(layer.route.methods)) {
+      registered.add(`${method.toUpperCase()} ${layer.route.path}`);
+    }
+  }
+
+  const documented = new Set(ENDPOINTS.map(([, endpoint]) => `${endpoint.method.toUpperCase()} ${endpoint.path}`));
+  return {
+    undocumented: Array.from(registered).filter(route => !documented.has(route)),
+    stale: Array.from(documented).filter(route => !registered.has(route)),
+  };
+}
@@ -1,234 +1,950 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage as defaultStorage, type IStorage } from "./storage";
 import { mlEngine } from "./ml-engine";
-import { z } from "zod";
+import { setupAuth, requireAuth, toPublicUser } from "./auth";
+import { implement } from "./contract";
+import { api } from "@shared/api";
+import { hasPermission } from "@shared/permissions";
+import { nextCronRun } from "@shared/cron";
+import {
+  updateUserRoleSchema, createApiKeySchema, insertWorkspaceSchema, switchWorkspaceSchema, workspaceMemberParamsSchema, idParamSchema,
+  createOrderSchema, updateOrderStatusSchema, orderQuerySchema,
+  insertProductSchema, updateProductSchema, productQuerySchema,
+  customerQuerySchema, updateCustomerSchema, recomputeCustomersSchema, DEFAULT_SEGMENT_THRESHOLDS,
+  predictionQuerySchema, predictionHistoryQuerySchema, generateCLVPredictionSchema, generateCLVBatchSchema, salesForecastQuerySchema,
+  salesMetricsQuerySchema, rebuildSalesMetricsSchema,
+  recommendationQuerySchema, retrainModelsSchema, modelEvaluationQuerySchema, jobQuerySchema,
+  createWebhookSchema, updateWebhookSchema, webhookDeliveryQuerySchema, updateScheduleSchema,
+  auditEventQuerySchema, auditEventExportQuerySchema, recordAuditEventSchema, exportParamsSchema, exportQuerySchema
+} from "@shared/schema";
+import { resolveWorkspace, ensureDefaultWorkspace, ensureDefaultMemberships, getAccessibleWorkspaces, getWorkspaceMemberUsers, canAccessWorkspace } from "./workspace";
+import { refreshSalesMetrics, refreshSalesMetricsAfterOrderWrite } from "./sales-metrics";
+import { recomputeCustomerAggregates, recomputeCustomerAfterOrderWrite } from "./customer-aggregates";
+import { generateMLInsights } from "./insights";
+import { ApiError, validate, sendError } from "./errors";
+import { registerApiDocs } from "./openapi";
+import { createApiKey, requireSession, toPublicApiKey } from "./api-keys";
+import { createWebhookSecret, emitWebhookEvent, sendTestDelivery, toPublicWebhook } from "./webhooks";
+import { publishLiveEvent, streamLiveEvents } from "./live-events";
+import { enqueueJob, JOB_PERMISSIONS } from "./jobs";
+import { rebuildRecommendations } from "./ml-jobs";
+import { ensureDefaultSchedules, runSchedule } from "./scheduler";
+import { recordAudit, streamAuditEventsCsv } from "./audit";
+import { streamExport } from "./exports";
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Customer routes
-  app.get("/api/customers", async (req, res) => {
-    try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
-      const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
-      const withPredictions = req.query.predictions === 'true';
-      
-      if (withPredictions) {
-        const customers = await storage.getCustomersWithPredictions(limit, offset);
-        res.json(customers);
-      } else {
-        const customers = await storage.getCustomers(limit, offset);
-        res.json(customers);
+export async function registerRoutes(app: Express, storage: IStorage = defaultStorage): Promise<Server> {
+  await ensureDefaultWorkspace(storage);
+  await ensureDefaultMemberships(storage);
+
+  // Auth routes and the API docs stay public, everything else under /api
+  // needs a session and runs against the active workspace
+  setupAuth(app, storage);
+  registerApiDocs(app);
+  app.use("/api", requireAuth, resolveWorkspace(storage));
+
+  // Workspace routes
+  implement(app, api.getWorkspaces, async (req, res) => {
+    try {
+      const workspaces = await getAccessibleWorkspaces(storage, req.user!);
+      res.json(workspaces);
+    } catch (error) {
+      sendError(req, res, error, "Failed to fetch workspaces");
+    }
+  });
+
+  implement(app, api.createWorkspace, async (req, res) => {
+    try {
+      const data = validate(insertWorkspaceSchema, req.body);
+      const workspace = await storage.createWorkspace(data);
+      await storage.addWorkspaceMember(workspace.id, req.user!.id);
+      await ensureDefaultSchedules(storage.forWorkspace(workspace.id));
+      await recordAudit(req, { action: 'workspace.created', targetType: 'workspace', targetId: workspace.id, after: workspace });
+      res.status(201).json(workspace);
+    } catch (error) {
+      sendError(req, res, error, "Failed to create workspace");
+    }
+  });
+
+  implement(app, api.getCurrentWorkspace, (req, res) => {
+    res.json(req.workspace);
+  });
+
+  // Sessions remember the workspace; API keys pick one per request with X-Workspace-Id
+  implement(app, api.switchWorkspace, requireSession, async (req, res) => {
+    try {
+      const { workspaceId } = validate(switchWorkspaceSchema, req.body);
+      const workspace = await storage.getWorkspace(workspaceId);
+
+      if (!workspace) {
+        throw new ApiError("not_found", "Workspace not found");
+      }
+      if (!await canAccessWorkspace(storage, req.user!, workspace.id)) {
+        throw new ApiError("forbidden", "You are not a member of this workspace");
+      }
+
+      req.session.workspaceId = workspace.id;
+      res.json(workspace);
+    } catch (error) {
+      sendError(req, res, error, "Failed to switch workspace");
+    }
+  });
+
+  implement(app, api.getWorkspaceMembers, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      if (!await storage.getWorkspace(id)) {
+        throw new ApiError("not_found", "Workspace not found");
       }
+      res.json((await getWorkspaceMemberUsers(storage, id)).map(toPublicUser));
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch customers" });
+      sendError(req, res, error, "Failed to fetch workspace members");
     }
   });
 
-  app.get("/api/customers/:id", async (req, res) => {
+  implement(app, api.addWorkspaceMember, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const customer = await storage.getCustomer(id);
-      
+      const { id, userId } = validate(workspaceMemberParamsSchema, req.params);
+      if (!await storage.getWorkspace(id)) {
+        throw new ApiError("not_found", "Workspace not found");
+      }
+      if (!await storage.getUser(userId)) {
+        throw new ApiError("not_found", "User not found");
+      }
+
+      await storage.addWorkspaceMember(id, userId);
+      await recordAudit(req, { action: 'workspace.member_added', targetType: 'workspace', targetId: id, metadata: { userId } });
+      res.json((await getWorkspaceMemberUsers(storage, id)).map(toPublicUser));
+    } catch (error) {
+      sendError(req, res, error, "Failed to add workspace member");
+    }
+  });
+
+  implement(app, api.removeWorkspaceMember, async (req, res) => {
+    try {
+      const { id, userId } = validate(workspaceMemberParamsSchema, req.params);
+      if (!await storage.removeWorkspaceMember(id, userId)) {
+        throw new ApiError("not_found", "Workspace member not found");
+      }
+      await recordAudit(req, { action: 'workspace.member_removed', targetType: 'workspace', targetId: id, metadata: { userId } });
+      res.status(204).end();
+    } catch (error) {
+      sendError(req, res, error, "Failed to remove workspace member");
+    }
+  });
+
+  // Customer routes
+  implement(app, api.getCustomers, async (req, res) => {
+    try {
+      const query = validate(customerQuerySchema, req.query);
+      const page = await req.storage.searchCustomers(query);
+      res.json(page);
+    } catch (error) {
+      sendError(req, res, error, "Failed to fetch customers");
+    }
+  });
+
+  implement(app, api.getCustomer, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const customer = await req.storage.getCustomer(id);
+
       if (!customer) {
-        return res.status(404).json({ error: "Customer not found" });
+        throw new ApiError("not_found", "Customer not found");
       }
-      
+
       res.json(customer);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch customer" });
+      sendError(req, res, error, "Failed to fetch customer");
+    }
+  });
+
+  // Totals, segment and churn risk stay derived; recompute is the only way to change them
+  implement(app, api.updateCustomer, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const updates = validate(updateCustomerSchema, req.body);
+
+      if (Object.keys(updates).length === 0) {
+        throw new ApiError("validation_error", "No customer fields to update");
+      }
+
+      const existing = await req.storage.getCustomer(id);
+      if (!existing) {
+        throw new ApiError("not_found", "Customer not found");
+      }
+
+      if (updates.email && updates.email !== existing.email) {
+        const { data: matches } = await req.storage.searchCustomers(customerQuerySchema.parse({ search: updates.email }));
+        if (matches.some(customer => customer.id !== id && customer.email === updates.email)) {
+          throw new ApiError("conflict", "Another customer already has this email", { email: ["Another customer already has this email"] });
+        }
+      }
+
+      const customer = await req.storage.updateCustomer(id, updates);
+      await recordAudit(req, { action: 'customer.updated', targetType: 'customer', targetId: id, before: existing, after: customer });
+      res.json(customer);
+    } catch (error) {
+      sendError(req, res, error, "Failed to update customer");
+    }
+  });
+
+  implement(app, api.getCustomerPredictionHistory, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const query = validate(predictionHistoryQuerySchema, req.query);
+
+      if (!await req.storage.getCustomer(id)) {
+        throw new ApiError("not_found", "Customer not found");
+      }
+
+      res.json(await req.storage.getMLPredictionHistory(id, query));
+    } catch (error) {
+      sendError(req, res, error, "Failed to fetch prediction history");
+    }
+  });
+
+  implement(app, api.recomputeCustomers, async (req, res) => {
+    try {
+      const data = validate(recomputeCustomersSchema, req.body ?? {});
+      const result = await recomputeCustomerAggregates(req.storage, data);
+      await recordAudit(req, {
+        action: 'customers.recomputed',
+        targetType: 'workspace',
+        targetId: req.workspace.id,
+        before: { thresholds: req.workspace.segmentThresholds ?? DEFAULT_SEGMENT_THRESHOLDS },
+        after: { thresholds: result.thresholds },
+        metadata: { customers: result.customers, customerIds: data.customerIds ?? null },
+      });
+      publishLiveEvent(req.storage, "metrics.changed", {});
+      res.json(result);
+    } catch (error) {
+      sendError(req, res, error, "Failed to recompute customers");
+    }
+  });
+
+  // Order routes
+  implement(app, api.getOrders, async (req, res) => {
+    try {
+      const { limit, offset, ...filters } = validate(orderQuerySchema, req.query);
+      const orders = await req.storage.getOrders(filters, limit, offset);
+      res.json(orders);
+    } catch (error) {
+      sendError(req, res, error, "Failed to fetch orders");
+    }
+  });
+
+  implement(app, api.getOrder, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const order = await req.storage.getOrderWithItems(id);
+
+      if (!order) {
+        throw new ApiError("not_found", "Order not found");
+      }
+
+      res.json(order);
+    } catch (error) {
+      sendError(req, res, error, "Failed to fetch order");
+    }
+  });
+
+  implement(app, api.createOrder, async (req, res) => {
+    try {
+      const data = validate(createOrderSchema, req.body);
+
+      const customer = await req.storage.getCustomer(data.customerId);
+      if (!customer) {
+        throw new ApiError("validation_error", "Customer not found", { customerId: ["Customer not found"] });
+      }
+
+      for (let index = 0; index < data.items.length; index++) {
+        const { productId } = data.items[index];
+        const product = await req.storage.getProduct(productId);
+        const message = !product ? `Product ${productId} not found`
+          : !product.isActive ? `Product ${productId} is no longer sold`
+          : null;
+        if (message) {
+          throw new ApiError("validation_error", message, { [`items.${index}.productId`]: [message] });
+        }
+      }
+
+      const order = await req.storage.createOrderWithItems(data);
+      await recomputeCustomerAfterOrderWrite(req.storage, order.customerId);
+      await refreshSalesMetricsAfterOrderWrite(req.storage, order.orderDate);
+      await emitWebhookEvent(req.storage, "order.created", order);
+      await recordAudit(req, { action: 'order.created', targetType: 'order', targetId: order.id, after: order });
+      publishLiveEvent(req.storage, "orders.changed", { orderId: order.id });
+      res.status(201).json(order);
+    } catch (error) {
+      sendError(req, res, error, "Failed to create order");
+    }
+  });
+
+  implement(app, api.updateOrderStatus, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const { status } = validate(updateOrderStatusSchema, req.body);
+
+      const existing = await req.storage.getOrder(id);
+      if (!existing) {
+        throw new ApiError("not_found", "Order not found");
+      }
+      if (existing.status === 'cancelled') {
+        throw new ApiError("conflict", "Cancelled orders cannot be updated");
+      }
+
+      const order = await req.storage.updateOrderStatus(id, status);
+      await recordAudit(req, { action: 'order.status_changed', targetType: 'order', targetId: id, before: existing, after: order });
+      publishLiveEvent(req.storage, "orders.changed", { orderId: id });
+      res.json(order);
+    } catch (error) {
+      sendError(req, res, error, "Failed to update order status");
+    }
+  });
+
+  implement(app, api.cancelOrder, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const existing = await req.storage.getOrder(id);
+
+      if (!existing) {
+        throw new ApiError("not_found", "Order not found");
+      }
+      if (existing.status === 'cancelled') {
+        throw new ApiError("conflict", "Order is already cancelled");
+      }
+
+      const order = await req.storage.cancelOrder(id);
+      await recomputeCustomerAfterOrderWrite(req.storage, existing.customerId);
+      await refreshSalesMetricsAfterOrderWrite(req.storage, existing.orderDate);
+      await recordAudit(req, { action: 'order.cancelled', targetType: 'order', targetId: id, before: existing, after: order });
+      publishLiveEvent(req.storage, "orders.changed", { orderId: id });
+      res.json(order);
+    } catch (error) {
+      sendError(req, res, error, "Failed to cancel order");
+    }
+  });
+
+  // Product catalog routes
+  implement(app, api.getProducts, async (req, res) => {
+    try {
+      const { category, active, limit, offset } = validate(productQuerySchema, req.query);
+      const products = await req.storage.getProducts({ category, isActive: active }, limit, offset);
+      res.json(products);
+    } catch (error) {
+      sendError(req, res, error, "Failed to fetch products");
+    }
+  });
+
+  implement(app, api.getProductCategories, async (req, res) => {
+    try {
+      const categories = await req.storage.getProductCategories();
+      res.json(categories);
+    } catch (error) {
+      sendError(req, res, error, "Failed to fetch product categories");
+    }
+  });
+
+  implement(app, api.getProduct, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const product = await req.storage.getProduct(id);
+
+      if (!product) {
+        throw new ApiError("not_found", "Product not found");
+      }
+
+      res.json(product);
+    } catch (error) {
+      sendError(req, res, error, "Failed to fetch product");
+    }
+  });
+
+  implement(app, api.createProduct, async (req, res) => {
+    try {
+      const data = validate(insertProductSchema, req.body);
+      const product = await req.storage.createProduct(data);
+      await recordAudit(req, { action: 'product.created', targetType: 'product', targetId: product.id, after: product });
+      res.status(201).json(product);
+    } catch (error) {
+      sendError(req, res, error, "Failed to create product");
+    }
+  });
+
+  implement(app, api.updateProduct, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const updates = validate(updateProductSchema, req.body);
+
+      if (Object.keys(updates).length === 0) {
+        throw new ApiError("validation_error", "No product fields to update");
+      }
+
+      const existing = await req.storage.getProduct(id);
+      const product = existing && await req.storage.updateProduct(id, updates);
+      if (!product) {
+        throw new ApiError("not_found", "Product not found");
+      }
+
+      await recordAudit(req, { action: 'product.updated', targetType: 'product', targetId: id, before: existing, after: product });
+      res.json(product);
+    } catch (error) {
+      sendError(req, res, error, "Failed to update product");
+    }
+  });
+
+  // Products are never deleted: order items and recommendations keep referencing them
+  implement(app, api.deactivateProduct, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const existing = await req.storage.getProduct(id);
+      const product = existing && await req.storage.updateProduct(id, { isActive: false });
+
+      if (!product) {
+        throw new ApiError("not_found", "Product not found");
+      }
+
+      await recordAudit(req, { action: 'product.deactivated', targetType: 'product', targetId: id, before: existing, after: product });
+      res.json(product);
+    } catch (error) {
+      sendError(req, res, error, "Failed to deactivate product");
     }
   });
 
   // ML Prediction routes
-  app.get("/api/predictions/clv", async (req, res) => {
+  implement(app, api.getCLVPredictions, async (req, res) => {
     try {
-      const customerId = req.query.customerId ? parseInt(req.query.customerId as string) : undefined;
-      
+      const { customerId } = validate(predictionQuerySchema, req.query);
+
       if (customerId) {
-        const prediction = await storage.getMLPrediction(customerId, 'clv');
-        res.json(prediction);
+        const prediction = await req.storage.getMLPrediction(customerId, 'clv');
+        res.json(prediction ?? null);
       } else {
-        const predictions = await storage.getMLPredictions('clv');
+        const predictions = await req.storage.getMLPredictions('clv');
         res.json(predictions);
       }
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch CLV predictions" });
+      sendError(req, res, error, "Failed to fetch CLV predictions");
     }
   });
 
-  app.post("/api/predictions/clv/generate", async (req, res) => {
+  implement(app, api.generateCLVPrediction, async (req, res) => {
     try {
-      const customerId = req.body.customerId;
-      
-      if (!customerId) {
-        return res.status(400).json({ error: "Customer ID is required" });
-      }
-      
-      const customer = await storage.getCustomer(customerId);
+      const { customerId } = validate(generateCLVPredictionSchema, req.body);
+
+      const customer = await req.storage.getCustomer(customerId);
       if (!customer) {
-        return res.status(404).json({ error: "Customer not found" });
+        throw new ApiError("not_found", "Customer not found");
       }
-      
+
       const prediction = await mlEngine.generateCLVPrediction(customer);
-      const savedPrediction = await storage.createMLPrediction(prediction);
-      
+      const savedPrediction = await req.storage.upsertMLPrediction(prediction);
+      await recordAudit(req, {
+        action: 'prediction.generated',
+        targetType: 'customer',
+        targetId: customerId,
+        metadata: { predictionId: savedPrediction.id, predictionType: 'clv', predictedValue: savedPrediction.predictedValue },
+      });
+
+      publishLiveEvent(req.storage, "predictions.changed", { predictionType: "clv" });
       res.json(savedPrediction);
     } catch (error) {
-      res.status(500).json({ error: "Failed to generate CLV prediction" });
+      sendError(req, res, error, "Failed to generate CLV prediction");
     }
   });
 
-  app.get("/api/predictions/churn", async (req, res) => {
+  // Like churn analysis, scoring every customer runs as a job
+  implement(app, api.generateCLVPredictions, async (req, res) => {
     try {
-      const customerId = req.query.customerId ? parseInt(req.query.customerId as string) : undefined;
-      
+      const { segment } = validate(generateCLVBatchSchema, req.body ?? {});
+      const job = await enqueueJob(req.storage, { type: 'generate_clv', input: { segment }, createdBy: req.user!.id });
+      await recordAudit(req, { action: 'job.queued', targetType: 'job', targetId: job.id, metadata: { type: job.type, segment } });
+      res.status(202).json(job);
+    } catch (error) {
+      sendError(req, res, error, "Failed to queue CLV predictions");
+    }
+  });
+
+  implement(app, api.getChurnPredictions, async (req, res) => {
+    try {
+      const { customerId } = validate(predictionQuerySchema, req.query);
+
       if (customerId) {
-        const prediction = await storage.getMLPrediction(customerId, 'churn');
-        res.json(prediction);
+        const prediction = await req.storage.getMLPrediction(customerId, 'churn');
+        res.json(prediction ?? null);
       } else {
-        const predictions = await storage.getMLPredictions('churn');
+        const predictions = await req.storage.getMLPredictions('churn');
         res.json(predictions);
       }
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch churn predictions" });
+      sendError(req, res, error, "Failed to fetch churn predictions");
     }
   });
 
-  app.post("/api/predictions/churn/analyze", async (req, res) => {
+  // Scoring every customer takes too long for a request, so it runs as a job
+  implement(app, api.analyzeChurnRisk, async (req, res) => {
     try {
-      const customers = await storage.getCustomers();
-      const churnAnalysis = await mlEngine.analyzeChurnRisk(customers);
-      
-      // Save predictions to storage
-      const savedPredictions = await Promise.all(
-        churnAnalysis.map(prediction => storage.createMLPrediction(prediction))
-      );
-      
-      res.json(savedPredictions);
+      const job = await enqueueJob(req.storage, { type: 'analyze_churn', createdBy: req.user!.id });
+      await recordAudit(req, { action: 'job.queued', targetType: 'job', targetId: job.id, metadata: { type: job.type } });
+      res.status(202).json(job);
     } catch (error) {
-      res.status(500).json({ error: "Failed to analyze churn risk" });
+      sendError(req, res, error, "Failed to queue churn analysis");
     }
   });
 
-  app.get("/api/forecast/sales", async (req, res) => {
+  implement(app, api.getSalesForecast, async (req, res) => {
     try {
-      const days = req.query.days ? parseInt(req.query.days as string) : 30;
-      const startDate = req.query.startDate ? new Date(req.query.startDate as string) : new Date();
+      const { days, startDate = new Date() } = validate(salesForecastQuerySchema, req.query);
       const endDate = new Date(startDate.getTime() + days * 24 * 60 * 60 * 1000);
-      
-      const historicalMetrics = await storage.getSalesMetrics();
+
+      const historicalMetrics = await req.storage.getSalesMetrics();
       const forecast = await mlEngine.generateSalesForecast(historicalMetrics, days);
-      
+      // Confidence and error metrics come from the latest stored backtest, if any
+      const [evaluation] = await req.storage.getModelEvaluations('forecast', 1);
+
       res.json({
         forecastPeriod: { startDate, endDate, days },
         historical: historicalMetrics,
         forecast: forecast,
-        confidence: 0.94,
-        modelMetrics: {
-          rmse: 12300,
-          mape: 8.7,
-          r2: 0.89
-        }
+        confidence: evaluation ? parseFloat(evaluation.accuracy) : null,
+        modelMetrics: evaluation ? {
+          rmse: evaluation.metrics.rmse ?? null,
+          mape: evaluation.metrics.mape ?? null,
+          r2: evaluation.metrics.r2 ?? null,
+          evaluatedAt: evaluation.evaluatedAt,
+        } : null
       });
     } catch (error) {
-      res.status(500).json({ error: "Failed to generate sales forecast" });
+      sendError(req, res, error, "Failed to generate sales forecast");
     }
   });
 
-  app.get("/api/recommendations/products", async (req, res) => {
+  implement(app, api.getProductRecommendations, async (req, res) => {
     try {
-      const productId = req.query.productId ? parseInt(req.query.productId as string) : undefined;
-      const type = req.query.type as string;
-      
-      if (productId) {
-        const recommendations = await storage.getProductRecommendations(productId, type);
-        res.json(recommendations);
-      } else {
-        // Get all product recommendations from storage
-        const allRecommendations: any[] = [];
-        for (let i = 1; i <= 10; i++) {
-          try {
-            const recs = await storage.getProductRecommendations(i);
-            allRecommendations.push(...recs);
-          } catch (e) {
-            // Continue if product doesn't exist
-          }
-        }
-        res.json(allRecommendations);
-      }
+      const query = validate(recommendationQuerySchema, req.query);
+      const page = await req.storage.searchProductRecommendations(query);
+      res.json(page);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch product recommendations" });
+      sendError(req, res, error, "Failed to fetch product recommendations");
     }
   });
 
-  app.post("/api/recommendations/generate", async (req, res) => {
+  implement(app, api.generateProductRecommendations, async (req, res) => {
     try {
-      const orders = await storage.getOrders();
-      const orderItems = await Promise.all(
-        orders.map(async order => await storage.getOrderItems(order.id))
-      );
-      
-      const recommendations = await mlEngine.generateProductRecommendations(
-        orders,
-        orderItems.flat()
-      );
-      
-      // Save recommendations to storage
-      const savedRecommendations = await Promise.all(
-        recommendations.map(rec => storage.createProductRecommendation(rec))
-      );
-      
+      const savedRecommendations = await rebuildRecommendations(req.storage);
+      await recordAudit(req, {
+        action: 'recommendations.generated',
+        targetType: 'recommendations',
+        metadata: { count: savedRecommendations.length },
+      });
       res.json(savedRecommendations);
     } catch (error) {
-      res.status(500).json({ error: "Failed to generate product recommendations" });
+      sendError(req, res, error, "Failed to generate product recommendations");
     }
   });
 
-  app.get("/api/dashboard/metrics", async (req, res) => {
+  implement(app, api.getDashboardMetrics, async (req, res) => {
     try {
-      const metrics = await storage.getDashboardMetrics();
+      const metrics = await req.storage.getDashboardMetrics();
       res.json(metrics);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch dashboard metrics" });
+      sendError(req, res, error, "Failed to fetch dashboard metrics");
     }
   });
 
-  app.get("/api/dashboard/insights", async (req, res) => {
+  implement(app, api.getMLInsights, async (req, res) => {
     try {
-      const insights = await storage.getMLInsights();
+      const insights = await generateMLInsights(req.storage);
       res.json(insights);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch ML insights" });
+      sendError(req, res, error, "Failed to fetch ML insights");
+    }
+  });
+
+  // Replaces polling: the client refetches whatever an event says has changed
+  implement(app, api.streamLiveEvents, streamLiveEvents);
+
+  implement(app, api.retrainModels, async (req, res) => {
+    try {
+      const { modelType } = validate(retrainModelsSchema, req.body ?? {});
+      const job = await enqueueJob(req.storage, { type: 'retrain_models', input: { modelType }, createdBy: req.user!.id });
+      await recordAudit(req, { action: 'job.queued', targetType: 'job', targetId: job.id, metadata: { type: job.type, modelType } });
+      res.status(202).json(job);
+    } catch (error) {
+      sendError(req, res, error, "Failed to queue model retraining");
     }
   });
 
-  app.post("/api/ml/retrain", async (req, res) => {
+  implement(app, api.getModelEvaluations, async (req, res) => {
     try {
-      const modelType = req.body.modelType;
-      
-      if (!modelType) {
-        return res.status(400).json({ error: "Model type is required" });
+      const { modelType, limit } = validate(modelEvaluationQuerySchema, req.query);
+      const evaluations = await req.storage.getModelEvaluations(modelType, limit);
+      res.json(evaluations);
+    } catch (error) {
+      sendError(req, res, error, "Failed to fetch model evaluations");
+    }
+  });
+
+  implement(app, api.getJobs, async (req, res) => {
+    try {
+      const query = validate(jobQuerySchema, req.query);
+      const jobs = await req.storage.getJobs(query);
+      res.json(jobs);
+    } catch (error) {
+      sendError(req, res, error, "Failed to fetch jobs");
+    }
+  });
+
+  implement(app, api.getJob, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const job = await req.storage.getJob(id);
+      if (!job) {
+        throw new ApiError("not_found", "Job not found");
       }
-      
-      const result = await mlEngine.retrainModel(modelType);
-      res.json(result);
+      res.json(job);
     } catch (error) {
-      res.status(500).json({ error: "Failed to retrain model" });
+      sendError(req, res, error, "Failed to fetch job");
     }
   });
 
-  app.get("/api/sales-metrics", async (req, res) => {
+  implement(app, api.cancelJob, async (req, res) => {
     try {
-      const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
-      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
-      
-      const metrics = await storage.getSalesMetrics(startDate, endDate);
+      const { id } = validate(idParamSchema, req.params);
+      const job = await req.storage.getJob(id);
+      if (!job) {
+        throw new ApiError("not_found", "Job not found");
+      }
+      if (!hasPermission(req.user!.role, JOB_PERMISSIONS[job.type])) {
+        throw new ApiError("forbidden", "Insufficient permissions");
+      }
+      if (job.status === 'succeeded' || job.status === 'failed') {
+        throw new ApiError("conflict", "Job has already finished");
+      }
+      const cancelled = await req.storage.cancelJob(id);
+      await recordAudit(req, {
+        action: 'job.cancel_requested',
+        targetType: 'job',
+        targetId: id,
+        before: { status: job.status },
+        after: { status: cancelled?.status ?? job.status },
+        metadata: { type: job.type },
+      });
+      res.json(cancelled ?? job);
+    } catch (error) {
+      sendError(req, res, error, "Failed to cancel job");
+    }
+  });
+
+  implement(app, api.getSalesMetrics, async (req, res) => {
+    try {
+      const { startDate, endDate } = validate(salesMetricsQuerySchema, req.query);
+      const metrics = await req.storage.getSalesMetrics(startDate, endDate);
       res.json(metrics);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch sales metrics" });
+      sendError(req, res, error, "Failed to fetch sales metrics");
     }
   });
 
+  implement(app, api.rebuildSalesMetrics, async (req, res) => {
+    try {
+      const { full } = validate(rebuildSalesMetricsSchema, req.body ?? {});
+      const result = await refreshSalesMetrics(req.storage, { full });
+      await recordAudit(req, { action: 'sales_metrics.rebuilt', targetType: 'sales_metrics', metadata: result });
+      publishLiveEvent(req.storage, "metrics.changed", {});
+      res.json(result);
+    } catch (error) {
+      sendError(req, res, error, "Failed to rebuild sales metrics");
+    }
+  });
+
+  implement(app, api.getSchedules, async (req, res) => {
+    try {
+      const schedules = await req.storage.getSchedules();
+      res.json(schedules);
+    } catch (error) {
+      sendError(req, res, error, "Failed to fetch schedules");
+    }
+  });
+
+  // Resuming, or changing the expression of an active schedule, restarts it from now
+  implement(app, api.updateSchedule, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const updates = validate(updateScheduleSchema, req.body);
+      const schedule = await req.storage.getSchedule(id);
+      if (!schedule) {
+        throw new ApiError("not_found", "Schedule not found");
+      }
+
+      const cron = updates.cron ?? schedule.cron;
+      const isActive = updates.isActive ?? schedule.isActive;
+      const updated = await req.storage.updateSchedule(id, {
+        cron,
+        isActive,
+        nextRunAt: isActive ? nextCronRun(cron, new Date()) : null,
+      });
+      await recordAudit(req, {
+        action: 'schedule.updated',
+        targetType: 'schedule',
+        targetId: id,
+        before: { cron: schedule.cron, isActive: schedule.isActive },
+        after: { cron, isActive },
+        metadata: { jobType: schedule.jobType },
+      });
+      res.json(updated ?? schedule);
+    } catch (error) {
+      sendError(req, res, error, "Failed to update schedule");
+    }
+  });
+
+  implement(app, api.runSchedule, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const schedule = await req.storage.getSchedule(id);
+      if (!schedule) {
+        throw new ApiError("not_found", "Schedule not found");
+      }
+      const job = await runSchedule(req.storage, schedule, req.user!.id);
+      await recordAudit(req, { action: 'job.queued', targetType: 'job', targetId: job.id, metadata: { type: job.type, scheduleId: id } });
+      res.status(202).json(job);
+    } catch (error) {
+      sendError(req, res, error, "Failed to run schedule");
+    }
+  });
+
+  // Export routes
+  implement(app, api.exportData, async (req, res) => {
+    try {
+      const { entity } = validate(exportParamsSchema, req.params);
+      const query = validate(exportQuerySchema, req.query);
+      await streamExport(req.storage, entity, query, res);
+    } catch (error) {
+      if (!res.headersSent) {
+        return sendError(req, res, error, "Failed to export data");
+      }
+      // Part of the file is already out; dropping the connection keeps it from looking complete
+      console.error(`[${req.requestId}] Export failed:`, error);
+      res.destroy();
+    }
+  });
+
+  // Audit log routes
+  implement(app, api.getAuditEvents, async (req, res) => {
+    try {
+      const query = validate(auditEventQuerySchema, req.query);
+      const page = await req.storage.searchAuditEvents(query);
+      res.json(page);
+    } catch (error) {
+      sendError(req, res, error, "Failed to fetch audit events");
+    }
+  });
+
+  implement(app, api.exportAuditEvents, async (req, res) => {
+    try {
+      const filters = validate(auditEventExportQuerySchema, req.query);
+      await streamAuditEventsCsv(req.storage, filters, res);
+    } catch (error) {
+      if (!res.headersSent) {
+        return sendError(req, res, error, "Failed to export audit events");
+      }
+      // Part of the file is already out; dropping the connection keeps it from looking complete
+      console.error(`[${req.requestId}] Audit export failed:`, error);
+      res.destroy();
+    }
+  });
+
+  // Plugins, imports and preferences live in the browser, so the client reports them
+  implement(app, api.recordAuditEvent, async (req, res) => {
+    try {
+      const { before, after, ...entry } = validate(recordAuditEventSchema, req.body);
+      const event = await recordAudit(req, { ...entry, before, after });
+      if (!event) {
+        throw new Error("Audit event was not saved");
+      }
+      res.status(201).json(event);
+    } catch (error) {
+      sendError(req, res, error, "Failed to record audit event");
+    }
+  });
+
+  // User management routes
+  implement(app, api.getUsers, async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      sendError(req, res, error, "Failed to fetch users");
+    }
+  });
+
+  implement(app, api.updateUserRole, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const { role } = validate(updateUserRoleSchema, req.body);
+
+      if (id === req.user!.id) {
+        throw new ApiError("bad_request", "You cannot change your own role");
+      }
+
+      const existing = await storage.getUser(id);
+      const user = existing && await storage.updateUserRole(id, role);
+      if (!user) {
+        throw new ApiError("not_found", "User not found");
+      }
+
+      await recordAudit(req, {
+        action: 'user.role_changed',
+        targetType: 'user',
+        targetId: id,
+        before: { role: existing.role },
+        after: { role: user.role },
+        metadata: { username: user.username },
+      });
+      res.json(toPublicUser(user));
+    } catch (error) {
+      sendError(req, res, error, "Failed to update user role");
+    }
+  });
+
+  // API key routes
+  implement(app, api.getApiKeys, requireSession, async (req, res) => {
+    try {
+      const keys = await storage.getApiKeys(req.user!.id);
+      res.json(keys.map(toPublicApiKey));
+    } catch (error) {
+      sendError(req, res, error, "Failed to fetch API keys");
+    }
+  });
+
+  implement(app, api.createApiKey, requireSession, async (req, res) => {
+    try {
+      const data = validate(createApiKeySchema, req.body);
+      const { apiKey, key } = await createApiKey(storage, req.user!, data);
+      await recordAudit(req, { action: 'api_key.created', targetType: 'api_key', targetId: apiKey.id, after: toPublicApiKey(apiKey) });
+      res.status(201).json({ ...toPublicApiKey(apiKey), key });
+    } catch (error) {
+      sendError(req, res, error, "Failed to create API key");
+    }
+  });
+
+  implement(app, api.revokeApiKey, requireSession, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const apiKey = await storage.revokeApiKey(id, req.user!.id);
+      if (!apiKey) {
+        throw new ApiError("not_found", "API key not found");
+      }
+      await recordAudit(req, {
+        action: 'api_key.revoked',
+        targetType: 'api_key',
+        targetId: id,
+        after: { revokedAt: apiKey.revokedAt },
+        metadata: { name: apiKey.name, prefix: apiKey.prefix },
+      });
+      res.json(toPublicApiKey(apiKey));
+    } catch (error) {
+      sendError(req, res, error, "Failed to revoke API key");
+    }
+  });
+
+  // Webhook routes
+  implement(app, api.getWebhooks, async (req, res) => {
+    try {
+      const webhooks = await req.storage.getWebhooks();
+      res.json(webhooks.map(toPublicWebhook));
+    } catch (error) {
+      sendError(req, res, error, "Failed to fetch webhooks");
+    }
+  });
+
+  implement(app, api.createWebhook, async (req, res) => {
+    try {
+      const { secret = createWebhookSecret(), ...data } = validate(createWebhookSchema, req.body);
+      const webhook = await req.storage.createWebhook({ ...data, secret });
+      await recordAudit(req, { action: 'webhook.created', targetType: 'webhook', targetId: webhook.id, after: toPublicWebhook(webhook) });
+      res.status(201).json({ ...toPublicWebhook(webhook), secret });
+    } catch (error) {
+      sendError(req, res, error, "Failed to create webhook");
+    }
+  });
+
+  implement(app, api.updateWebhook, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const updates = validate(updateWebhookSchema, req.body);
+
+      const existing = await req.storage.getWebhook(id);
+      const webhook = existing && await req.storage.updateWebhook(id, updates);
+      if (!webhook) {
+        throw new ApiError("not_found", "Webhook not found");
+      }
+
+      await recordAudit(req, {
+        action: 'webhook.updated',
+        targetType: 'webhook',
+        targetId: id,
+        before: toPublicWebhook(existing),
+        after: toPublicWebhook(webhook),
+      });
+      res.json(toPublicWebhook(webhook));
+    } catch (error) {
+      sendError(req, res, error, "Failed to update webhook");
+    }
+  });
+
+  implement(app, api.deleteWebhook, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const existing = await req.storage.getWebhook(id);
+      if (!existing || !await req.storage.deleteWebhook(id)) {
+        throw new ApiError("not_found", "Webhook not found");
+      }
+      await recordAudit(req, { action: 'webhook.deleted', targetType: 'webhook', targetId: id, before: toPublicWebhook(existing) });
+      res.status(204).end();
+    } catch (error) {
+      sendError(req, res, error, "Failed to delete webhook");
+    }
+  });
+
+  // Inactive webhooks can still be tested, e.g. before turning them back on
+  implement(app, api.testWebhook, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const webhook = await req.storage.getWebhook(id);
+      if (!webhook) {
+        throw new ApiError("not_found", "Webhook not found");
+      }
+
+      const delivery = await sendTestDelivery(req.storage, webhook);
+      res.json(delivery);
+    } catch (error) {
+      sendError(req, res, error, "Failed to send test delivery");
+    }
+  });
+
+  implement(app, api.getWebhookDeliveries, async (req, res) => {
+    try {
+      const { id } = validate(idParamSchema, req.params);
+      const { limit } = validate(webhookDeliveryQuerySchema, req.query);
+
+      if (!await req.storage.getWebhook(id)) {
+        throw new ApiError("not_found", "Webhook not found");
+      }
+
+      const deliveries = await req.storage.getWebhookDeliveries(id, limit);
+      res.json(deliveries);
+    } catch (error) {
+      sendError(req, res, error, "Failed to fetch webhook deliveries");
+    }
+  });
+
+  // Unknown API paths get the error envelope instead of falling through to the client app
+  app.use("/api", (req, res) => {
+    sendError(req, res, new ApiError("not_found", `No route for ${req.method} ${req.baseUrl}${req.path}`));
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,49 @@
+import type { SalesMetric } from "@shared/schema";
+import { startOfUTCDay, type IStorage } from "./storage";
+
+export type SalesMetricsRefresh = {
+  mode: "full" | "incremental";
+  days: number;
+  from: Date | null;
+  to: Date | null;
+};
+
+function summarize(mode: SalesMetricsRefresh["mode"], metrics: SalesMetric[]): SalesMetricsRefresh {
+  return {
+    mode,
+    days: metrics.length,
+    from: metrics[0]?.date ?? null,
+    to: metrics[metrics.length - 1]?.date ?? null,
+  };
+}
+
+// Rebuilds daily sales metrics from orders. Incremental runs start at the last stored
+// day, which may have been aggregated before the day was over, or at `since` when an
+// earlier day changed. Full runs, or a workspace without metrics yet, cover every order.
+export async function refreshSalesMetrics(
+  storage: IStorage,
+  options: { full?: boolean; since?: Date } = {},
+): Promise<SalesMetricsRefresh> {
+  if (options.full) {
+    return summarize("full", await storage.rebuildSalesMetrics());
+  }
+
+  const existing = await storage.getSalesMetrics();
+  const lastDay = existing[existing.length - 1]?.date;
+  if (!lastDay) {
+    return summarize("full", await storage.rebuildSalesMetrics());
+  }
+
+  const since = options.since && options.since < lastDay ? startOfUTCDay(options.since) : lastDay;
+  return summarize("incremental", await storage.rebuildSalesMetrics(since));
+}
+
+// Keeps metrics in line with an order that was just created, updated or cancelled.
+// The order write already succeeded, so a failed refresh is only logged.
+export async function refreshSalesMetricsAfterOrderWrite(storage: IStorage, orderDate: Date): Promise<void> {
+  try {
+    await refreshSalesMetrics(storage, { since: orderDate });
+  } catch (error) {
+    console.error("Failed to refresh sales metrics:", error);
+  }
+}
@@ -0,0 +1,82 @@
+import { DEFAULT_SCHEDULES, SCHEDULED_JOB_TYPES, type Job, type Schedule } from "@shared/schema";
+import { nextCronRun } from "@shared/cron";
+import type { IStorage } from "./storage";
+import { ApiError } from "./errors";
+import { enqueueJob, isJobActive } from "./jobs";
+import { recordSystemAudit } from "./audit";
+
+// Schedules are minute-granular; checking twice a minute starts each run within 30s
+const SCHEDULER_POLL_MS = 30 * 1000;
+
+// Gives the workspace a schedule, with the default expression, for each scheduled job
+// type it doesn't have one for yet
+export async function ensureDefaultSchedules(storage: IStorage, now: Date = new Date()): Promise<Schedule[]> {
+  const existing = await storage.getSchedules();
+  for (const jobType of SCHEDULED_JOB_TYPES) {
+    if (existing.some(schedule => schedule.jobType === jobType)) continue;
+    const cron = DEFAULT_SCHEDULES[jobType];
+    existing.push(await storage.createSchedule({ jobType, cron, nextRunAt: nextCronRun(cron, now) }));
+  }
+  return existing;
+}
+
+// Queues a run of the schedule. Throws a conflict while its previous run is still
+// queued or running, so slow runs never pile up.
+export async function runSchedule(
+  storage: IStorage,
+  schedule: Schedule,
+  createdBy: number | null = null,
+  now: Date = new Date(),
+): Promise<Job> {
+  const previous = schedule.lastJobId ? await storage.getJob(schedule.lastJobId) : undefined;
+  if (previous && isJobActive(previous)) {
+    throw new ApiError("conflict", "The previous run of this schedule hasn't finished");
+  }
+
+  const job = await enqueueJob(storage, { type: schedule.jobType, scheduleId: schedule.id, createdBy });
+  await storage.updateSchedule(schedule.id, { lastRunAt: now, lastJobId: job.id });
+  return job;
+}
+
+// Starts every due schedule, in any workspace. A schedule that came due more than once
+// while the server was down runs once, then waits for its next match after `now`.
+export async function runDueSchedules(storage: IStorage, now: Date = new Date()): Promise<void> {
+  for (const schedule of await storage.getDueSchedules(now)) {
+    const workspaceStorage = storage.forWorkspace(schedule.workspaceId);
+    const claimed = await workspaceStorage.advanceSchedule(schedule.id, schedule.nextRunAt!, nextCronRun(schedule.cron, now));
+    if (!claimed) continue;
+
+    try {
+      const job = await runSchedule(workspaceStorage, claimed, null, now);
+      await recordSystemAudit(workspaceStorage, {
+        action: 'job.queued',
+        targetType: 'job',
+        targetId: job.id,
+        metadata: { type: job.type, scheduleId: schedule.id },
+      });
+    } catch (error) {
+      if (!(error instanceof ApiError)) throw error;
+      console.log(`Skipped schedule ${schedule.id} (${schedule.jobType}): ${error.message}`);
+    }
+  }
+}
+
+// Creates missing default schedules for existing workspaces, then polls for due ones
+export async function startScheduler(storage: IStorage) {
+  for (const workspace of await storage.getWorkspaces()) {
+    await ensureDefaultSchedules(storage.forWorkspace(workspace.id));
+  }
+
+  let running = false;
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDueSchedules(storage);
+    } catch (error) {
+      console.error("Failed to run due schedules:", error);
+    } finally {
+      running = false;
+    }
+  }, SCHEDULER_POLL_MS);
+}
@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { MemStorage } from "./storage";
+import { createWebhookSecret, retryDueDeliveries, signWebhookPayload, toPublicWebhook } from "./webhooks";
+
+const SECRET = "whsec_test";
+const BODY = '{"event":"order.created","data":{"id":1}}';
+const TIMESTAMP = 1760000000;
+const NOW = new Date("2026-10-19T12:00:00Z");
+const LEASE = new Date(NOW.getTime() + 60 * 1000);
+
+async function deliveryDueAt(storage: MemStorage, webhookId: number, nextAttemptAt: Date) {
+  return storage.createWebhookDelivery({
+    webhookId, event: "order.created", payload: { event: "order.created" }, nextAttemptAt, createdAt: nextAttemptAt,
+  });
+}
+
+describe("signWebhookPayload", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    assert.equal(
+      signWebhookPayload(SECRET, BODY, TIMESTAMP),
+      "t=1760000000,v1=7691606f33d626e26808b3e0b951bba1b833b016c012130d7c240cfae087b5a0",
+    );
+  });
+
+  it("changes with the secret, body and timestamp", () => {
+    const signature = signWebhookPayload(SECRET, BODY, TIMESTAMP);
+    assert.notEqual(signWebhookPayload("whsec_other", BODY, TIMESTAMP), signature);
+    assert.notEqual(signWebhookPayload(SECRET, BODY + " ", TIMESTAMP), signature);
+    assert.notEqual(signWebhookPayload(SECRET, BODY, TIMESTAMP + 1).split(",")[1], signature.split(",")[1]);
+  });
+});
+
+describe("createWebhookSecret", () => {
+  it("returns a fresh prefixed secret each time", () => {
+    const secret = createWebhookSecret();
+    assert.match(secret, /^whsec_[A-Za-z0-9_-]{32}$/);
+    assert.notEqual(createWebhookSecret(), secret);
+  });
+});
+
+describe("toPublicWebhook", () => {
+  it("leaves out the signing secret", () => {
+    const webhook = {
+      id: 1, workspaceId: 1, url: "https://example.com/hook", events: ["order.created" as const],
+      secret: SECRET, isActive: true, createdAt: new Date(),
+    };
+    assert.ok(!("secret" in toPublicWebhook(webhook)));
+  });
+});
+
+describe("claimDueWebhookDelivery", () => {
+  it("claims the longest-due delivery of any workspace, once per lease", async () => {
+    const storage = new MemStorage();
+    const later = await deliveryDueAt(storage, 1, new Date("2026-10-19T11:00:00Z"));
+    const earlier = await deliveryDueAt(storage.forWorkspace(2), 2, new Date("2026-10-19T10:00:00Z"));
+    await deliveryDueAt(storage, 1, new Date("2026-10-19T13:00:00Z"));
+
+    const first = await storage.claimDueWebhookDelivery(NOW, LEASE);
+    assert.equal(first?.id, earlier.id);
+    assert.deepEqual(first?.nextAttemptAt, LEASE);
+
+    assert.equal((await storage.claimDueWebhookDelivery(NOW, new Date(LEASE.getTime() + 1000)))?.id, later.id);
+    assert.equal(await storage.claimDueWebhookDelivery(NOW, LEASE), undefined);
+    // A claim whose sender never recorded the attempt is due again once the lease lapses
+    assert.equal((await storage.claimDueWebhookDelivery(LEASE, new Date(LEASE.getTime() + 1)))?.id, earlier.id);
+  });
+});
+
+describe("retryDueDeliveries", () => {
+  it("sends each due delivery once when several loops poll at the same time", async () => {
+    const received: string[] = [];
+    const server = createServer((req, res) => {
+      received.push(String(req.headers["x-webhook-delivery"]));
+      res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+    try {
+      const storage = new MemStorage();
+      const { port } = server.address() as AddressInfo;
+      const webhook = await storage.createWebhook({
+        url: `http://127.0.0.1:${port}/hook`, events: ["order.created"], secret: SECRET,
+      });
+      const due = [await deliveryDueAt(storage, webhook.id, NOW), await deliveryDueAt(storage, webhook.id, NOW)];
+
+      await Promise.all([retryDueDeliveries(storage, NOW), retryDueDeliveries(storage, NOW)]);
+
+      assert.deepEqual(received.sort(), due.map(delivery => String(delivery.id)).sort());
+      for (const delivery of await storage.getWebhookDeliveries(webhook.id)) {
+        assert.equal(delivery.status, "succeeded");
+        assert.equal(delivery.attempts, 1);
+        assert.equal(delivery.nextAttemptAt, null);
+      }
+    } finally {
+      server.close();
+    }
+  });
+});
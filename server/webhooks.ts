@@ -0,0 +1,183 @@
+import { createHmac, randomBytes } from "crypto";
+import {
+  WEBHOOK_TEST_EVENT,
+  type PublicWebhook,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookDeliveryEvent,
+  type WebhookEvent,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// A delivery is given up after this many attempts; retries wait 30s, 1m, 2m, 4m and 8m
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const RETRY_POLL_MS = 15 * 1000;
+// A delivery being sent is held this long, well past the request timeout, before another
+// process may retry it
+const DELIVERY_LEASE_MS = 60 * 1000;
+// Characters of a failed response body kept in the delivery log
+const MAX_ERROR_LENGTH = 500;
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+export function createWebhookSecret(): string {
+  return "whsec_" + randomBytes(24).toString("base64url");
+}
+
+export function toPublicWebhook(webhook: Webhook): PublicWebhook {
+  const { secret: _secret, ...publicWebhook } = webhook;
+  return publicWebhook;
+}
+
+// `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. The timestamp is signed too,
+// so receivers can reject old requests being replayed.
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// Logs a delivery of `event` for every active webhook subscribed to it and sends them in
+// the background. Never throws: a receiver being down must not fail the request that
+// caused the event.
+export async function emitWebhookEvent(storage: IStorage, event: WebhookEvent, data: unknown): Promise<void> {
+  try {
+    const webhooks = await storage.getWebhooks();
+    for (const webhook of webhooks) {
+      if (!webhook.isActive || !webhook.events.includes(event)) continue;
+      const delivery = await queueDelivery(storage, webhook, event, data);
+      void attemptDelivery(storage, webhook, delivery);
+    }
+  } catch (error) {
+    console.error(`Failed to queue webhook event ${event}:`, error);
+  }
+}
+
+// Sends a `webhook.test` event right away and returns the logged result. Test
+// deliveries are not retried.
+export async function sendTestDelivery(storage: IStorage, webhook: Webhook): Promise<WebhookDelivery> {
+  const delivery = await queueDelivery(storage, webhook, WEBHOOK_TEST_EVENT, {
+    message: "Test delivery from the dashboard",
+  });
+  return attemptDelivery(storage, webhook, delivery);
+}
+
+// Retries every delivery that is due, in any workspace. Each is claimed just before it is
+// sent, so processes polling side by side never send the same attempt twice.
+export async function retryDueDeliveries(storage: IStorage, now: Date = new Date()): Promise<void> {
+  for (;;) {
+    const delivery = await storage.claimDueWebhookDelivery(now, new Date(Date.now() + DELIVERY_LEASE_MS));
+    if (!delivery) return;
+
+    const workspaceStorage = storage.forWorkspace(delivery.workspaceId);
+    const webhook = await workspaceStorage.getWebhook(delivery.webhookId);
+    if (!webhook || !webhook.isActive) {
+      await workspaceStorage.updateWebhookDelivery(delivery.id, {
+        status: 'failed',
+        error: "Webhook was disabled before the delivery succeeded",
+        nextAttemptAt: null,
+      });
+      continue;
+    }
+    await attemptDelivery(workspaceStorage, webhook, delivery);
+  }
+}
+
+// Polls for due retries. Deliveries are logged before they are sent, so ones
+// interrupted by a restart are picked up here too.
+export function startWebhookRetries(storage: IStorage) {
+  let running = false;
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await retryDueDeliveries(storage);
+    } catch (error) {
+      console.error("Failed to retry webhook deliveries:", error);
+    } finally {
+      running = false;
+    }
+  }, RETRY_POLL_MS);
+}
+
+function queueDelivery(
+  storage: IStorage,
+  webhook: Webhook,
+  event: WebhookDeliveryEvent,
+  data: unknown,
+): Promise<WebhookDelivery> {
+  const now = new Date();
+  return storage.createWebhookDelivery({
+    webhookId: webhook.id,
+    event,
+    payload: { event, workspaceId: webhook.workspaceId, createdAt: now.toISOString(), data },
+    // Held for the caller, which sends it right away; the retry loop only picks it up if
+    // that attempt is never recorded
+    nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS),
+    createdAt: now,
+  });
+}
+
+// Sends the delivery once and records the outcome, scheduling the next attempt with
+// exponential backoff if it failed
+async function attemptDelivery(storage: IStorage, webhook: Webhook, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  try {
+    const result = await send(webhook, delivery);
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+    const retry = !result.ok && delivery.event !== WEBHOOK_TEST_EVENT && attempts < MAX_ATTEMPTS;
+
+    const updated = await storage.updateWebhookDelivery(delivery.id, {
+      status: result.ok ? 'succeeded' : retry ? 'pending' : 'failed',
+      attempts,
+      responseStatus: result.status,
+      error: result.error,
+      lastAttemptAt: now,
+      nextAttemptAt: retry ? new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1)) : null,
+    });
+    return updated ?? delivery;
+  } catch (error) {
+    console.error(`Failed to record webhook delivery ${delivery.id}:`, error);
+    return delivery;
+  }
+}
+
+async function send(
+  webhook: Webhook,
+  delivery: WebhookDelivery,
+): Promise<{ ok: boolean; status: number | null; error: string | null }> {
+  const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": String(delivery.id),
+        [SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, body, timestamp),
+      },
+      body,
+      // A redirect is reported as a failure rather than followed
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const text = await response.text().catch(() => "");
+    if (response.ok) {
+      return { ok: true, status: response.status, error: null };
+    }
+    const error = text ? `HTTP ${response.status}: ${text.slice(0, MAX_ERROR_LENGTH)}` : `HTTP ${response.status}`;
+    return { ok: false, status: response.status, error };
+  } catch (error) {
+    return { ok: false, status: null, error: describeFetchError(error) };
+  }
+}
+
+function describeFetchError(error: unknown): string {
+  if (!(error instanceof Error)) return String(error);
+  if (error.name === "TimeoutError") return `No response within ${REQUEST_TIMEOUT_MS / 1000}s`;
+  // Node's fetch reports "fetch failed" and keeps the reason (e.g. ECONNREFUSED) in `cause`
+  return error.cause instanceof Error ? error.cause.message : error.message;
+}
@@ -0,0 +1,112 @@
+import type { Request, Response, NextFunction } from "express";
+import { DEFAULT_WORKSPACE_ID, type User, type Workspace } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import type { IStorage } from "./storage";
+import { ApiError, sendError } from "./errors";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by resolveWorkspace for every authenticated /api request
+      workspace: Workspace;
+      storage: IStorage;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    workspaceId?: number;
+  }
+}
+
+// Lets API clients pick a workspace per request instead of per session
+export const WORKSPACE_HEADER = "x-workspace-id";
+
+// Rows that predate workspaces carry DEFAULT_WORKSPACE_ID, so make sure it exists.
+// On an empty table the serial id of the first workspace is the default id.
+export async function ensureDefaultWorkspace(storage: IStorage): Promise<Workspace> {
+  const existing = await storage.getWorkspace(DEFAULT_WORKSPACE_ID);
+  if (existing) return existing;
+  return storage.createWorkspace({ name: "Default Workspace" });
+}
+
+// Installations that predate workspace membership have no members at all; their
+// existing users keep access to the default workspace. Runs once, on the first start
+// with membership, so later removals stick.
+export async function ensureDefaultMemberships(storage: IStorage): Promise<void> {
+  if (await storage.hasWorkspaceMembers()) return;
+  for (const user of await storage.getUsers()) {
+    await storage.addWorkspaceMember(DEFAULT_WORKSPACE_ID, user.id);
+  }
+}
+
+// Admins can open every workspace, everyone else only those they are a member of
+export async function getAccessibleWorkspaces(storage: IStorage, user: User): Promise<Workspace[]> {
+  const workspaces = await storage.getWorkspaces();
+  if (hasPermission(user.role, "workspaces:manage")) return workspaces;
+  const memberOf = await storage.getUserWorkspaceIds(user.id);
+  return workspaces.filter(workspace => memberOf.includes(workspace.id));
+}
+
+// Users with a membership of the workspace, in the order they were added
+export async function getWorkspaceMemberUsers(storage: IStorage, workspaceId: number): Promise<User[]> {
+  const members = await storage.getWorkspaceMembers(workspaceId);
+  const users = await storage.getUsers();
+  return members
+    .map(member => users.find(user => user.id === member.userId))
+    .filter((user): user is User => user !== undefined);
+}
+
+export async function canAccessWorkspace(storage: IStorage, user: User, workspaceId: number): Promise<boolean> {
+  if (hasPermission(user.role, "workspaces:manage")) return true;
+  return (await storage.getUserWorkspaceIds(user.id)).includes(workspaceId);
+}
+
+// Resolves the active workspace from the X-Workspace-Id header, then the session, then
+// the default workspace or the user's first one, and exposes storage scoped to it. A
+// header naming a workspace the user can't open is refused; a session pointing at one
+// (e.g. after the user was removed) is dropped.
+export function resolveWorkspace(storage: IStorage) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user!;
+      const header = req.get(WORKSPACE_HEADER);
+      let workspace: Workspace | undefined;
+
+      if (header !== undefined) {
+        const id = Number(header);
+        workspace = Number.isInteger(id) ? await storage.getWorkspace(id) : undefined;
+        if (!workspace) {
+          throw new ApiError("not_found", "Workspace not found");
+        }
+        if (!await canAccessWorkspace(storage, user, workspace.id)) {
+          throw new ApiError("forbidden", "You are not a member of this workspace");
+        }
+      } else if (req.session?.workspaceId) {
+        workspace = await storage.getWorkspace(req.session.workspaceId);
+        if (workspace && !await canAccessWorkspace(storage, user, workspace.id)) {
+          workspace = undefined;
+        }
+        if (!workspace) {
+          delete req.session.workspaceId;
+        }
+      }
+
+      if (!workspace) {
+        await ensureDefaultWorkspace(storage);
+        const accessible = await getAccessibleWorkspaces(storage, user);
+        workspace = accessible.find(w => w.id === DEFAULT_WORKSPACE_ID) ?? accessible[0];
+      }
+      if (!workspace) {
+        throw new ApiError("forbidden", "You are not a member of any workspace");
+      }
+
+      req.workspace = workspace;
+      req.storage = storage.forWorkspace(workspace.id);
+      next();
+    } catch (error) {
+      sendError(req, res, error, "Failed to resolve workspace");
+    }
+  };
+}
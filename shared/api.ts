@@ -0,0 +1,350 @@
+/**
+ * The HTTP API as a typed contract
+ * registerRoutes implements every endpoint here and the client calls them through it,
+ * so a change to a path, input or response shape fails to compile on both sides
+ */
+import { z, type ZodTypeAny, type AnyZodObject } from "zod";
+import { createSelectSchema } from "drizzle-zod";
+import {
+  workspaces, users, apiKeys, customers, orders, orderItems, products, mlPredictions, salesMetrics,
+  productRecommendations, modelEvaluations, webhooks, webhookDeliveries, jobs, schedules, auditEvents, segmentThresholdsSchema, WEBHOOK_EVENTS,
+  JOB_STATUSES, JOB_TYPES, jobQuerySchema, updateScheduleSchema, retrainModelsResultSchema, analyzeChurnResultSchema,
+  refreshExpiredPredictionsResultSchema, generateRecommendationsResultSchema, compactPredictionsResultSchema,
+  generateCLVResultSchema, registerUserSchema, loginUserSchema, updateUserRoleSchema, createApiKeySchema,
+  createWebhookSchema, updateWebhookSchema, webhookDeliveryQuerySchema,
+  insertWorkspaceSchema, switchWorkspaceSchema, workspaceMemberParamsSchema, idParamSchema,
+  customerQuerySchema, updateCustomerSchema, recomputeCustomersSchema,
+  auditEventQuerySchema, auditEventExportQuerySchema, recordAuditEventSchema, exportParamsSchema, exportQuerySchema,
+  orderQuerySchema, createOrderSchema, updateOrderStatusSchema,
+  productQuerySchema, insertProductSchema, updateProductSchema,
+  predictionQuerySchema, predictionHistoryQuerySchema, generateCLVPredictionSchema, generateCLVBatchSchema, salesForecastQuerySchema,
+  recommendationQuerySchema, retrainModelsSchema, modelEvaluationQuerySchema, MODEL_TYPES,
+  salesMetricsQuerySchema, rebuildSalesMetricsSchema,
+} from "./schema";
+import type { Permission } from "./permissions";
+
+// Response bodies. Rows come straight from the Drizzle tables; JSON columns get
+// the shape the application writes into them.
+const Workspace = createSelectSchema(workspaces, {
+  segmentThresholds: segmentThresholdsSchema.nullable(),
+});
+const PublicUser = createSelectSchema(users).omit({ password: true });
+const PublicApiKey = createSelectSchema(apiKeys).omit({ keyHash: true });
+// Returned once, at creation: `key` is not stored and can't be shown again
+const CreatedApiKey = PublicApiKey.extend({ key: z.string() });
+const Customer = createSelectSchema(customers);
+const Order = createSelectSchema(orders);
+const OrderItem = createSelectSchema(orderItems);
+const Product = createSelectSchema(products);
+const MLPrediction = createSelectSchema(mlPredictions, {
+  features: z.record(z.unknown()).nullable(),
+});
+const SalesMetric = createSelectSchema(salesMetrics);
+const ProductRecommendation = createSelectSchema(productRecommendations);
+const ModelEvaluation = createSelectSchema(modelEvaluations, {
+  metrics: z.record(z.number()),
+});
+const PublicWebhook = createSelectSchema(webhooks, {
+  events: z.array(z.enum(WEBHOOK_EVENTS)),
+}).omit({ secret: true });
+// Returned once, at creation, so the receiver can be set up to verify signatures
+const CreatedWebhook = PublicWebhook.extend({ secret: z.string() });
+const WebhookDelivery = createSelectSchema(webhookDeliveries, {
+  payload: z.record(z.unknown()),
+});
+
+const Job = createSelectSchema(jobs, {
+  input: z.record(z.unknown()),
+  result: z.union([
+    retrainModelsResultSchema, analyzeChurnResultSchema, refreshExpiredPredictionsResultSchema, generateRecommendationsResultSchema,
+    compactPredictionsResultSchema, generateCLVResultSchema,
+  ]).nullable(),
+});
+const Schedule = createSelectSchema(schedules);
+const AuditEvent = createSelectSchema(auditEvents, {
+  changes: z.record(z.object({ before: z.unknown(), after: z.unknown() }).partial()).nullable(),
+  metadata: z.record(z.unknown()).nullable(),
+});
+
+const CustomerWithPredictions = Customer.extend({
+  clvPrediction: MLPrediction.optional(),
+  churnPrediction: MLPrediction.optional(),
+  predictedCLV: z.number().optional(),
+  churnRiskScore: z.number().optional(),
+});
+const OrderWithItems = Order.extend({ items: z.array(OrderItem) });
+const ProductRecommendationWithProducts = ProductRecommendation.extend({
+  productName: z.string(),
+  productCategory: z.string(),
+  recommendedProductName: z.string(),
+});
+
+const DashboardMetrics = z.object({
+  totalRevenue: z.number(),
+  totalOrders: z.number(),
+  totalCustomers: z.number(),
+  avgOrderValue: z.number(),
+  avgCLV: z.number(),
+  churnRiskPercentage: z.number(),
+  forecastAccuracy: z.number().nullable(),
+  crossSellOpportunities: z.number(),
+  modelMetrics: z.object({
+    clvAccuracy: z.number().nullable(),
+    churnAccuracy: z.number().nullable(),
+    forecastAccuracy: z.number().nullable(),
+    recommendationAccuracy: z.number().nullable(),
+    lastUpdate: z.date().nullable(),
+  }),
+});
+
+const MLInsight = z.object({
+  type: z.enum(['revenue', 'churn', 'cross_sell', 'forecast']),
+  title: z.string(),
+  description: z.string(),
+  impact: z.string(),
+  estimatedImpact: z.number(),
+  confidence: z.number(),
+  actionable: z.boolean(),
+  customerIds: z.array(z.number().int()),
+  productIds: z.array(z.number().int()),
+});
+
+// One forecast day. Field names are the ones the forecasting model emits.
+const SalesForecastPoint = z.object({
+  date: z.date(),
+  predicted_revenue: z.number(),
+  confidence_lower: z.number(),
+  confidence_upper: z.number(),
+  trend: z.number(),
+  seasonal_factor: z.number(),
+});
+
+const SalesForecast = z.object({
+  forecastPeriod: z.object({ startDate: z.date(), endDate: z.date(), days: z.number().int() }),
+  historical: z.array(SalesMetric),
+  forecast: z.array(SalesForecastPoint),
+  // From the latest forecast evaluation; null until one has run
+  confidence: z.number().nullable(),
+  modelMetrics: z.object({
+    rmse: z.number().nullable(),
+    mape: z.number().nullable(),
+    r2: z.number().nullable(),
+    evaluatedAt: z.date(),
+  }).nullable(),
+});
+
+// Pushed on GET /api/events when another request changes the workspace's data.
+// They only say what changed; clients refetch what they show.
+const LiveEvent = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("orders.changed"), workspaceId: z.number().int(), data: z.object({ orderId: z.number().int() }) }),
+  z.object({ type: z.literal("predictions.changed"), workspaceId: z.number().int(), data: z.object({ predictionType: z.enum(["clv", "churn"]) }) }),
+  z.object({ type: z.literal("recommendations.changed"), workspaceId: z.number().int(), data: z.object({ count: z.number().int() }) }),
+  z.object({ type: z.literal("models.retrained"), workspaceId: z.number().int(), data: z.object({ modelTypes: z.array(z.enum(MODEL_TYPES)) }) }),
+  z.object({ type: z.literal("metrics.changed"), workspaceId: z.number().int(), data: z.object({}) }),
+  z.object({
+    type: z.literal("jobs.changed"), workspaceId: z.number().int(),
+    data: z.object({ jobId: z.number().int(), type: z.enum(JOB_TYPES), status: z.enum(JOB_STATUSES), progress: z.number().int() }),
+  }),
+]);
+
+const paginated = <T extends ZodTypeAny>(item: T) => z.object({
+  data: z.array(item),
+  total: z.number().int(),
+  limit: z.number().int(),
+  offset: z.number().int(),
+});
+
+// Named response schemas, documented once and referenced from each endpoint
+export const API_SCHEMAS = {
+  Workspace, PublicUser, PublicApiKey, CreatedApiKey, Customer, CustomerWithPredictions, Order, OrderItem, OrderWithItems,
+  Product, MLPrediction, SalesMetric, ProductRecommendation, ProductRecommendationWithProducts,
+  ModelEvaluation, Job, Schedule, AuditEvent, PublicWebhook, CreatedWebhook, WebhookDelivery, DashboardMetrics, MLInsight, SalesForecastPoint, SalesForecast,
+  LiveEvent,
+};
+
+export type SalesForecastPoint = z.infer<typeof SalesForecastPoint>;
+export type SalesForecast = z.infer<typeof SalesForecast>;
+export type LiveEvent = z.infer<typeof LiveEvent>;
+export type LiveEventType = LiveEvent["type"];
+export const LIVE_EVENT_TYPES: LiveEventType[] = LiveEvent.options.map(option => option.shape.type.value);
+
+export interface ApiEndpoint {
+  method: "get" | "post" | "put" | "patch" | "delete";
+  // Express-style path, e.g. /api/customers/:id
+  path: string;
+  summary: string;
+  tag: string;
+  // Auth routes are the only ones reachable without a session
+  public?: boolean;
+  // Checked by the server before the handler runs
+  permission?: Permission;
+  params?: AnyZodObject;
+  query?: AnyZodObject;
+  body?: ZodTypeAny;
+  status?: number;
+  // Omitted only for responses without a body
+  response?: ZodTypeAny;
+  // For responses that aren't JSON; `response` then describes the body, or each item of a stream.
+  // Several types when the client picks one, each described by `response`.
+  contentType?: string | readonly string[];
+}
+
+// Every route registered under /api, keyed by operation name
+export const api = {
+  // Auth
+  register: { method: "post", path: "/api/auth/register", tag: "Auth", public: true, summary: "Create an account and sign in", body: registerUserSchema, status: 201, response: PublicUser },
+  login: { method: "post", path: "/api/auth/login", tag: "Auth", public: true, summary: "Sign in with username and password", body: loginUserSchema, response: PublicUser },
+  logout: { method: "post", path: "/api/auth/logout", tag: "Auth", public: true, summary: "End the current session", status: 204 },
+  getCurrentUser: { method: "get", path: "/api/auth/me", tag: "Auth", public: true, summary: "Currently signed-in user", response: PublicUser },
+
+  // Workspaces
+  getWorkspaces: { method: "get", path: "/api/workspaces", tag: "Workspaces", summary: "List the workspaces the user can open", response: z.array(Workspace) },
+  createWorkspace: { method: "post", path: "/api/workspaces", tag: "Workspaces", summary: "Create a workspace", permission: "workspaces:manage", body: insertWorkspaceSchema, status: 201, response: Workspace },
+  getCurrentWorkspace: { method: "get", path: "/api/workspaces/current", tag: "Workspaces", summary: "Active workspace", response: Workspace },
+  switchWorkspace: { method: "put", path: "/api/workspaces/current", tag: "Workspaces", summary: "Switch the session's workspace", body: switchWorkspaceSchema, response: Workspace },
+  getWorkspaceMembers: { method: "get", path: "/api/workspaces/:id/members", tag: "Workspaces", summary: "Users who are members of a workspace", permission: "workspaces:manage", params: idParamSchema, response: z.array(PublicUser) },
+  addWorkspaceMember: { method: "put", path: "/api/workspaces/:id/members/:userId", tag: "Workspaces", summary: "Let a user open a workspace", permission: "workspaces:manage", params: workspaceMemberParamsSchema, response: z.array(PublicUser) },
+  removeWorkspaceMember: { method: "delete", path: "/api/workspaces/:id/members/:userId", tag: "Workspaces", summary: "Stop a user from opening a workspace", permission: "workspaces:manage", params: workspaceMemberParamsSchema, status: 204 },
+
+  // Customers
+  getCustomers: { method: "get", path: "/api/customers", tag: "Customers", summary: "Search customers", query: customerQuerySchema, response: paginated(CustomerWithPredictions) },
+  getCustomer: { method: "get", path: "/api/customers/:id", tag: "Customers", summary: "Get a customer", params: idParamSchema, response: Customer },
+  recomputeCustomers: {
+    method: "post", path: "/api/customers/recompute", tag: "Customers", summary: "Recompute customer totals, segments and churn risk",
+    permission: "customers:recompute", body: recomputeCustomersSchema,
+    response: z.object({ customers: z.number().int(), thresholds: segmentThresholdsSchema }),
+  },
+  updateCustomer: {
+    method: "patch", path: "/api/customers/:id", tag: "Customers", summary: "Change a customer's name, email or active state",
+    permission: "customers:manage", params: idParamSchema, body: updateCustomerSchema, response: Customer,
+  },
+  getCustomerPredictionHistory: {
+    method: "get", path: "/api/customers/:id/predictions/history", tag: "Customers", summary: "A customer's predictions over time, expired ones included, newest first",
+    params: idParamSchema, query: predictionHistoryQuerySchema, response: z.array(MLPrediction),
+  },
+
+  // Orders
+  getOrders: { method: "get", path: "/api/orders", tag: "Orders", summary: "List orders, newest first", query: orderQuerySchema, response: z.array(Order) },
+  getOrder: { method: "get", path: "/api/orders/:id", tag: "Orders", summary: "Get an order with its items", params: idParamSchema, response: OrderWithItems },
+  createOrder: { method: "post", path: "/api/orders", tag: "Orders", summary: "Create an order with its items", permission: "orders:manage", body: createOrderSchema, status: 201, response: OrderWithItems },
+  updateOrderStatus: { method: "patch", path: "/api/orders/:id/status", tag: "Orders", summary: "Update an order's status", permission: "orders:manage", params: idParamSchema, body: updateOrderStatusSchema, response: Order },
+  cancelOrder: { method: "post", path: "/api/orders/:id/cancel", tag: "Orders", summary: "Cancel an order", permission: "orders:manage", params: idParamSchema, response: Order },
+
+  // Products
+  getProducts: { method: "get", path: "/api/products", tag: "Products", summary: "List products", query: productQuerySchema, response: z.array(Product) },
+  getProductCategories: { method: "get", path: "/api/products/categories", tag: "Products", summary: "Distinct product categories", response: z.array(z.string()) },
+  getProduct: { method: "get", path: "/api/products/:id", tag: "Products", summary: "Get a product", params: idParamSchema, response: Product },
+  createProduct: { method: "post", path: "/api/products", tag: "Products", summary: "Create a product", permission: "products:manage", body: insertProductSchema, status: 201, response: Product },
+  updateProduct: { method: "patch", path: "/api/products/:id", tag: "Products", summary: "Update a product", permission: "products:manage", params: idParamSchema, body: updateProductSchema, response: Product },
+  deactivateProduct: { method: "post", path: "/api/products/:id/deactivate", tag: "Products", summary: "Hide a product from new orders", permission: "products:manage", params: idParamSchema, response: Product },
+
+  // Predictions. Only current predictions are returned: the newest of each customer that
+  // hasn't expired. With a customerId they return that customer's, or null.
+  getCLVPredictions: {
+    method: "get", path: "/api/predictions/clv", tag: "Predictions", summary: "Current CLV predictions, newest first, or one customer's",
+    query: predictionQuerySchema, response: z.union([z.array(MLPrediction), MLPrediction.nullable()]),
+  },
+  generateCLVPrediction: { method: "post", path: "/api/predictions/clv/generate", tag: "Predictions", summary: "Predict a customer's lifetime value", permission: "predictions:generate", body: generateCLVPredictionSchema, response: MLPrediction },
+  generateCLVPredictions: {
+    method: "post", path: "/api/predictions/clv/batch", tag: "Predictions", summary: "Queue a job that predicts CLV for every customer, or one segment",
+    permission: "predictions:generate", body: generateCLVBatchSchema, status: 202, response: Job,
+  },
+  getChurnPredictions: {
+    method: "get", path: "/api/predictions/churn", tag: "Predictions", summary: "Current churn predictions, newest first, or one customer's",
+    query: predictionQuerySchema, response: z.union([z.array(MLPrediction), MLPrediction.nullable()]),
+  },
+  analyzeChurnRisk: {
+    method: "post", path: "/api/predictions/churn/analyze", tag: "Predictions", summary: "Queue a job that scores churn risk for every customer",
+    permission: "predictions:generate", status: 202, response: Job,
+  },
+  getSalesForecast: { method: "get", path: "/api/forecast/sales", tag: "Predictions", summary: "Forecast daily revenue", query: salesForecastQuerySchema, response: SalesForecast },
+
+  // Recommendations
+  getProductRecommendations: { method: "get", path: "/api/recommendations/products", tag: "Recommendations", summary: "Search product recommendations", query: recommendationQuerySchema, response: paginated(ProductRecommendationWithProducts) },
+  generateProductRecommendations: { method: "post", path: "/api/recommendations/generate", tag: "Recommendations", summary: "Mine recommendations from recent orders", permission: "recommendations:generate", response: z.array(ProductRecommendation) },
+
+  // Dashboard
+  getDashboardMetrics: { method: "get", path: "/api/dashboard/metrics", tag: "Dashboard", summary: "KPI summary", response: DashboardMetrics },
+  getMLInsights: { method: "get", path: "/api/dashboard/insights", tag: "Dashboard", summary: "Insights ranked by estimated impact", response: z.array(MLInsight) },
+  streamLiveEvents: {
+    method: "get", path: "/api/events", tag: "Dashboard", summary: "Server-sent events for changes in the active workspace",
+    contentType: "text/event-stream", response: LiveEvent,
+  },
+  getSalesMetrics: { method: "get", path: "/api/sales-metrics", tag: "Dashboard", summary: "Daily sales metrics", query: salesMetricsQuerySchema, response: z.array(SalesMetric) },
+  rebuildSalesMetrics: {
+    method: "post", path: "/api/sales-metrics/rebuild", tag: "Dashboard", summary: "Re-derive daily sales metrics from orders",
+    permission: "metrics:rebuild", body: rebuildSalesMetricsSchema,
+    response: z.object({ mode: z.enum(["full", "incremental"]), days: z.number().int(), from: z.date().nullable(), to: z.date().nullable() }),
+  },
+
+  // ML operations
+  retrainModels: {
+    method: "post", path: "/api/ml/retrain", tag: "ML Operations", summary: "Queue a job that evaluates models against recent history",
+    permission: "models:retrain", body: retrainModelsSchema, status: 202, response: Job,
+  },
+  getModelEvaluations: { method: "get", path: "/api/ml/evaluations", tag: "ML Operations", summary: "Stored evaluation runs, newest first", query: modelEvaluationQuerySchema, response: z.array(ModelEvaluation) },
+
+  // Jobs. Long ML operations run in the background; poll a job or watch jobs.changed events.
+  getJobs: { method: "get", path: "/api/jobs", tag: "Jobs", summary: "Recent jobs, newest first", query: jobQuerySchema, response: z.array(Job) },
+  getJob: { method: "get", path: "/api/jobs/:id", tag: "Jobs", summary: "Get a job's status, progress and result", params: idParamSchema, response: Job },
+  cancelJob: {
+    method: "post", path: "/api/jobs/:id/cancel", tag: "Jobs", summary: "Cancel a queued job, or ask a running one to stop",
+    params: idParamSchema, response: Job,
+  },
+
+  // Schedules. Each workspace has one per recurring job; run history is GET /api/jobs?scheduleId=
+  getSchedules: { method: "get", path: "/api/schedules", tag: "Schedules", summary: "List the workspace's recurring jobs", permission: "schedules:manage", response: z.array(Schedule) },
+  updateSchedule: {
+    method: "patch", path: "/api/schedules/:id", tag: "Schedules", summary: "Change a schedule's cron expression, or pause or resume it",
+    permission: "schedules:manage", params: idParamSchema, body: updateScheduleSchema, response: Schedule,
+  },
+  runSchedule: { method: "post", path: "/api/schedules/:id/run", tag: "Schedules", summary: "Queue a run of a schedule now", permission: "schedules:manage", params: idParamSchema, status: 202, response: Job },
+
+  // Exports. Files are streamed a page at a time, so they cover every matching row.
+  exportData: {
+    method: "get", path: "/api/export/:entity", tag: "Export", summary: "Download customers, orders, recommendations or the sales forecast as CSV, XLSX or NDJSON",
+    params: exportParamsSchema, query: exportQuerySchema, response: z.record(z.unknown()),
+    contentType: ["text/csv", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", "application/x-ndjson"],
+  },
+
+  // Audit log. Server-side changes are recorded as they happen; the client reports actions
+  // that only touch the browser, such as plugin installs.
+  getAuditEvents: { method: "get", path: "/api/audit-events", tag: "Audit", summary: "Search the audit log, newest first", permission: "audit:read", query: auditEventQuerySchema, response: paginated(AuditEvent) },
+  exportAuditEvents: {
+    method: "get", path: "/api/audit-events/export", tag: "Audit", summary: "Download every matching audit event as CSV",
+    permission: "audit:read", query: auditEventExportQuerySchema, contentType: "text/csv", response: z.string(),
+  },
+  recordAuditEvent: { method: "post", path: "/api/audit-events", tag: "Audit", summary: "Record an action taken in the browser", body: recordAuditEventSchema, status: 201, response: AuditEvent },
+
+  // Users
+  getUsers: { method: "get", path: "/api/users", tag: "Users", summary: "List users", permission: "users:manage", response: z.array(PublicUser) },
+  updateUserRole: { method: "patch", path: "/api/users/:id/role", tag: "Users", summary: "Change a user's role", permission: "users:manage", params: idParamSchema, body: updateUserRoleSchema, response: PublicUser },
+
+  // API keys. Managed from a signed-in session only, never with a key.
+  getApiKeys: { method: "get", path: "/api/api-keys", tag: "API Keys", summary: "List your API keys", response: z.array(PublicApiKey) },
+  createApiKey: { method: "post", path: "/api/api-keys", tag: "API Keys", summary: "Create an API key", body: createApiKeySchema, status: 201, response: CreatedApiKey },
+  revokeApiKey: { method: "post", path: "/api/api-keys/:id/revoke", tag: "API Keys", summary: "Revoke one of your API keys", params: idParamSchema, response: PublicApiKey },
+
+  // Webhooks
+  getWebhooks: { method: "get", path: "/api/webhooks", tag: "Webhooks", summary: "List webhooks", permission: "webhooks:manage", response: z.array(PublicWebhook) },
+  createWebhook: { method: "post", path: "/api/webhooks", tag: "Webhooks", summary: "Subscribe a URL to events", permission: "webhooks:manage", body: createWebhookSchema, status: 201, response: CreatedWebhook },
+  updateWebhook: { method: "patch", path: "/api/webhooks/:id", tag: "Webhooks", summary: "Change a webhook's URL, events or active state", permission: "webhooks:manage", params: idParamSchema, body: updateWebhookSchema, response: PublicWebhook },
+  deleteWebhook: { method: "delete", path: "/api/webhooks/:id", tag: "Webhooks", summary: "Delete a webhook and its delivery log", permission: "webhooks:manage", params: idParamSchema, status: 204 },
+  testWebhook: { method: "post", path: "/api/webhooks/:id/test", tag: "Webhooks", summary: "Send a test event and return the delivery", permission: "webhooks:manage", params: idParamSchema, response: WebhookDelivery },
+  getWebhookDeliveries: {
+    method: "get", path: "/api/webhooks/:id/deliveries", tag: "Webhooks", summary: "Delivery log, newest first",
+    permission: "webhooks:manage", params: idParamSchema, query: webhookDeliveryQuerySchema, response: z.array(WebhookDelivery),
+  },
+} satisfies Record<string, ApiEndpoint>;
+
+export type ApiOperationName = keyof typeof api;
+
+type InputPart<E, K extends "params" | "query" | "body"> = E extends { [P in K]: infer S extends ZodTypeAny }
+  ? {} extends z.input<S> ? { [P in K]?: z.input<S> } : { [P in K]: z.input<S> }
+  : {};
+
+// What a caller sends: path params, query string and body, each only where the endpoint takes one
+export type ApiInput<E extends ApiEndpoint> = InputPart<E, "params"> & InputPart<E, "query"> & InputPart<E, "body">;
+
+// What the endpoint responds with on success
+export type ApiOutput<E extends ApiEndpoint> = E extends { response: infer S extends ZodTypeAny } ? z.infer<S> : void;
@@ -0,0 +1,52 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { nextCronRun, parseCron } from "./cron";
+
+function next(expression: string, after: string): string {
+  return nextCronRun(expression, new Date(after)).toISOString();
+}
+
+describe("nextCronRun", () => {
+  it("returns the next matching minute", () => {
+    assert.equal(next("*/15 * * * *", "2026-10-19T10:07:30Z"), "2026-10-19T10:15:00.000Z");
+    assert.equal(next("30 2 * * *", "2026-10-19T03:00:00Z"), "2026-10-20T02:30:00.000Z");
+  });
+
+  it("is strictly after the given time", () => {
+    assert.equal(next("0 * * * *", "2026-10-19T10:00:00Z"), "2026-10-19T11:00:00.000Z");
+    assert.equal(next("* * * * *", "2026-10-19T10:00:59.999Z"), "2026-10-19T10:01:00.000Z");
+  });
+
+  it("rolls over months and years", () => {
+    assert.equal(next("0 0 1 jan *", "2026-06-15T00:00:00Z"), "2027-01-01T00:00:00.000Z");
+    assert.equal(next("0 0 31 * *", "2026-11-01T00:00:00Z"), "2026-12-31T00:00:00.000Z");
+  });
+
+  it("skips to the next leap day", () => {
+    assert.equal(next("0 0 29 2 *", "2026-03-01T00:00:00Z"), "2028-02-29T00:00:00.000Z");
+  });
+
+  it("matches weekday ranges and treats 7 as Sunday", () => {
+    // 2026-10-16 is a Friday
+    assert.equal(next("0 9 * * mon-fri", "2026-10-16T10:00:00Z"), "2026-10-19T09:00:00.000Z");
+    assert.equal(next("0 0 * * 7", "2026-10-16T10:00:00Z"), "2026-10-18T00:00:00.000Z");
+  });
+
+  it("runs on either day field when both are restricted", () => {
+    // The 20th comes before the next Sunday
+    assert.equal(next("0 0 20 * sun", "2026-10-19T12:00:00Z"), "2026-10-20T00:00:00.000Z");
+  });
+
+  it("throws for an expression that never matches", () => {
+    assert.throws(() => nextCronRun("0 0 30 2 *", new Date("2026-01-01T00:00:00Z")), /never matches/);
+  });
+});
+
+describe("parseCron", () => {
+  it("rejects invalid expressions", () => {
+    assert.throws(() => parseCron("* * *"), /Expected 5 fields/);
+    assert.throws(() => parseCron("60 * * * *"), /Invalid minute "60"/);
+    assert.throws(() => parseCron("* 5-1 * * *"), /Invalid hour range/);
+    assert.throws(() => parseCron("*/0 * * * *"), /Invalid minute/);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Cron expressions for recurring schedules
+ * Five fields - minute, hour, day of month, month, day of week - evaluated in UTC.
+ * Fields accept `*`, numbers, ranges (`1-5`), steps (`*\/15`, `0-12/2`), lists and
+ * three-letter month and weekday names.
+ */
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"] },
+  // 0 and 7 are both Sunday
+  { name: "day of week", min: 0, max: 7, names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far ahead nextCronRun looks before deciding an expression never matches (e.g. `0 0 30 2 *`)
+const SEARCH_LIMIT_MS = 5 * 366 * DAY_MS;
+
+export interface CronExpression {
+  minutes: boolean[];
+  hours: boolean[];
+  daysOfMonth: boolean[];
+  months: boolean[];
+  daysOfWeek: boolean[];
+  // When both day fields are restricted, a day matching either one runs, as in standard cron
+  daysRestricted: boolean;
+}
+
+// Throws an Error naming the bad field when the expression is invalid
+export function parseCron(expression: string): CronExpression {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Expected 5 fields (minute hour day-of-month month day-of-week), got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  daysOfWeek[0] = daysOfWeek[0] || daysOfWeek[7];
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysRestricted: !parts[2].startsWith("*") && !parts[4].startsWith("*"),
+  };
+}
+
+// The first whole minute strictly after `after` that the expression matches
+export function nextCronRun(expression: string, after: Date): Date {
+  const cron = parseCron(expression);
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + SEARCH_LIMIT_MS;
+  while (date.getTime() <= limit) {
+    if (!cron.months[date.getUTCMonth() + 1]) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours[date.getUTCHours()]) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes[date.getUTCMinutes()]) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+  throw new Error(`"${expression}" never matches a date`);
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth[date.getUTCDate()];
+  const dayOfWeek = cron.daysOfWeek[date.getUTCDay()];
+  return cron.daysRestricted ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+function parseField(text: string, field: CronField): boolean[] {
+  const values: boolean[] = new Array(field.max + 1).fill(false);
+
+  for (const part of text.split(",")) {
+    const [range, stepText, ...rest] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (rest.length > 0 || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${field.name} "${part}"`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== "*") {
+      const [from, to, ...extra] = range.split("-");
+      if (extra.length > 0) {
+        throw new Error(`Invalid ${field.name} "${part}"`);
+      }
+      start = parseValue(from, field);
+      // `5/15` means from 5 to the end of the range, every 15
+      end = to !== undefined ? parseValue(to, field) : stepText !== undefined ? field.max : start;
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range "${range}"`);
+      }
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values[value] = true;
+    }
+  }
+  return values;
+}
+
+function parseValue(text: string, field: CronField): number {
+  const named = field.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = named >= 0 ? named + field.min : /^\d+$/.test(text) ? Number(text) : NaN;
+  if (!(value >= field.min && value <= field.max)) {
+    throw new Error(`Invalid ${field.name} "${text}", expected ${field.min}-${field.max}`);
+  }
+  return value;
+}
@@ -0,0 +1,40 @@
+/**
+ * Error envelope returned by every API route
+ * The client parses it back into typed errors, so codes are part of the contract
+ */
+
+// HTTP status sent with each error code
+export const API_ERROR_STATUS = {
+  validation_error: 400,
+  invalid_json: 400,
+  bad_request: 400,
+  unauthenticated: 401,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+  payload_too_large: 413,
+  internal_error: 500,
+} as const;
+
+export type ApiErrorCode = keyof typeof API_ERROR_STATUS;
+
+// Messages per input field, keyed by dotted path (e.g. `items.0.quantity`)
+export type FieldErrors = Record<string, string[]>;
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    fieldErrors?: FieldErrors;
+    // Matches the X-Request-Id response header and the server logs
+    requestId: string;
+  };
+}
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+export function isApiErrorBody(value: unknown): value is ApiErrorBody {
+  const error = (value as ApiErrorBody | null)?.error;
+  return typeof error === "object" && error !== null
+    && typeof error.code === "string" && typeof error.message === "string";
+}
@@ -0,0 +1,36 @@
+/**
+ * Role-based access control shared by the API and the client
+ * Roles are ordered: each role inherits every permission of the roles before it
+ */
+
+export const USER_ROLES = ['viewer', 'analyst', 'admin'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+// Minimum role required for each action
+export const PERMISSIONS = {
+  'dashboard:read': 'viewer',
+  'customers:manage': 'analyst',
+  'orders:manage': 'analyst',
+  'products:manage': 'analyst',
+  'predictions:generate': 'analyst',
+  'recommendations:generate': 'analyst',
+  'models:retrain': 'admin',
+  'metrics:rebuild': 'admin',
+  'customers:recompute': 'admin',
+  'users:manage': 'admin',
+  'workspaces:manage': 'admin',
+  'webhooks:manage': 'admin',
+  'schedules:manage': 'admin',
+  'audit:read': 'admin',
+} as const satisfies Record<string, UserRole>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return hasRole(role, PERMISSIONS[permission]);
+}
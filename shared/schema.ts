@@ -1,28 +1,105 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb, unique, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { USER_ROLES } from "./permissions";
+import { nextCronRun } from "./cron";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role", { enum: USER_ROLES }).notNull().default('viewer'),
 });
 
+// Read keys may only make GET requests; write keys may do whatever their owner's role allows
+export const API_KEY_SCOPES = ['read', 'write'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Credentials for scripts, acting as the user who created them. Only a SHA-256 hash of
+// the key is stored; `prefix` is its first characters, so users can tell keys apart.
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  scope: text("scope", { enum: API_KEY_SCOPES }).notNull().default('read'),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("api_keys_user_idx").on(table.userId),
+]);
+
+// Every commerce row belongs to a workspace (one storefront). Rows that existed
+// before workspaces were introduced land in the default workspace.
+export const DEFAULT_WORKSPACE_ID = 1;
+
+// Ordered from lowest to highest so they can be sorted by rank
+export const CUSTOMER_SEGMENTS = ['new', 'low', 'medium', 'high', 'vip'] as const;
+export const CHURN_RISK_LEVELS = ['low', 'medium', 'high'] as const;
+export type CustomerSegment = typeof CUSTOMER_SEGMENTS[number];
+export type ChurnRiskLevel = typeof CHURN_RISK_LEVELS[number];
+
+// Minimum non-cancelled spend for each segment. Customers without orders, or below
+// the `low` threshold, are 'new'.
+export const segmentThresholdsSchema = z.object({
+  low: z.number().min(0),
+  medium: z.number().min(0),
+  high: z.number().min(0),
+  vip: z.number().min(0),
+}).refine(
+  (t) => t.low <= t.medium && t.medium <= t.high && t.high <= t.vip,
+  { message: "Segment thresholds must increase from low to vip" }
+);
+
+export type SegmentThresholds = z.infer<typeof segmentThresholdsSchema>;
+
+export const DEFAULT_SEGMENT_THRESHOLDS: SegmentThresholds = { low: 0, medium: 1000, high: 3000, vip: 7500 };
+
+export const workspaces = pgTable("workspaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  // Falls back to DEFAULT_SEGMENT_THRESHOLDS when unset
+  segmentThresholds: jsonb("segment_thresholds").$type<SegmentThresholds>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Who can open a workspace. Admins can open every workspace without being a member.
+export const workspaceMembers = pgTable("workspace_members", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull(),
+  userId: integer("user_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("workspace_members_workspace_user_unique").on(table.workspaceId, table.userId),
+  index("workspace_members_user_idx").on(table.userId),
+]);
+
 export const customers = pgTable("customers", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
   name: text("name").notNull(),
-  email: text("email").notNull().unique(),
+  email: text("email").notNull(),
   registrationDate: timestamp("registration_date").notNull().defaultNow(),
   totalSpent: decimal("total_spent", { precision: 10, scale: 2 }).notNull().default('0'),
   orderCount: integer("order_count").notNull().default(0),
   lastPurchaseDate: timestamp("last_purchase_date"),
-  segment: text("segment").notNull().default('new'), // new, low, medium, high, vip
-  churnRisk: text("churn_risk").notNull().default('low'), // low, medium, high
+  segment: text("segment", { enum: CUSTOMER_SEGMENTS }).notNull().default('new'),
+  churnRisk: text("churn_risk", { enum: CHURN_RISK_LEVELS }).notNull().default('low'),
   isActive: boolean("is_active").notNull().default(true),
-});
+}, (table) => [
+  unique("customers_workspace_email_unique").on(table.workspaceId, table.email),
+]);
+
+export const ORDER_STATUSES = ['pending', 'completed', 'cancelled'] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
 
 export const orders = pgTable("orders", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
   customerId: integer("customer_id").notNull(),
   orderDate: timestamp("order_date").notNull().defaultNow(),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
@@ -32,6 +109,7 @@ export const orders = pgTable("orders", {
 
 export const products = pgTable("products", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
   name: text("name").notNull(),
   category: text("category").notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
@@ -40,6 +118,7 @@ export const products = pgTable("products", {
 
 export const orderItems = pgTable("order_items", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
   orderId: integer("order_id").notNull(),
   productId: integer("product_id").notNull(),
   quantity: integer("quantity").notNull(),
@@ -48,17 +127,22 @@ export const orderItems = pgTable("order_items", {
 
 export const mlPredictions = pgTable("ml_predictions", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
   customerId: integer("customer_id").notNull(),
   predictionType: text("prediction_type").notNull(), // clv, churn, forecast
   predictedValue: decimal("predicted_value", { precision: 10, scale: 2 }),
   confidence: decimal("confidence", { precision: 5, scale: 4 }),
-  features: jsonb("features"), // Store feature data as JSON
+  features: jsonb("features").$type<Record<string, unknown>>(), // Model inputs behind the prediction
   createdAt: timestamp("created_at").notNull().defaultNow(),
   expiresAt: timestamp("expires_at"),
-});
+}, (table) => [
+  // Latest prediction of a type per customer
+  index("ml_predictions_customer_type_created_idx").on(table.customerId, table.predictionType, table.createdAt),
+]);
 
 export const salesMetrics = pgTable("sales_metrics", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
   date: timestamp("date").notNull(),
   revenue: decimal("revenue", { precision: 12, scale: 2 }).notNull(),
   orderCount: integer("order_count").notNull(),
@@ -67,8 +151,11 @@ export const salesMetrics = pgTable("sales_metrics", {
   conversionRate: decimal("conversion_rate", { precision: 5, scale: 4 }),
 });
 
+export const RECOMMENDATION_TYPES = ['cross_sell', 'up_sell'] as const;
+
 export const productRecommendations = pgTable("product_recommendations", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
   productId: integer("product_id").notNull(),
   recommendedProductId: integer("recommended_product_id").notNull(),
   recommendationType: text("recommendation_type").notNull(), // cross_sell, up_sell
@@ -77,55 +164,482 @@ export const productRecommendations = pgTable("product_recommendations", {
   lift: decimal("lift", { precision: 8, scale: 4 }),
   coOccurrenceCount: integer("co_occurrence_count").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("product_recommendations_product_type_idx").on(table.productId, table.recommendationType),
+]);
+
+export const MODEL_TYPES = ['clv', 'churn', 'forecast', 'recommendations'] as const;
+
+export type ModelType = typeof MODEL_TYPES[number];
+
+// One holdout evaluation of a model against the workspace's own history.
+// `metrics` holds the model-specific scores behind `accuracy` (e.g. rmse, mape, r2).
+export const modelEvaluations = pgTable("model_evaluations", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
+  modelType: text("model_type", { enum: MODEL_TYPES }).notNull(),
+  accuracy: decimal("accuracy", { precision: 5, scale: 4 }).notNull(),
+  metrics: jsonb("metrics").$type<Record<string, number>>().notNull(),
+  sampleSize: integer("sample_size").notNull(),
+  evaluatedAt: timestamp("evaluated_at").notNull().defaultNow(),
+}, (table) => [
+  index("model_evaluations_type_evaluated_idx").on(table.workspaceId, table.modelType, table.evaluatedAt),
+]);
+
+// Long-running operations run by the background worker instead of inside a request
+export const JOB_TYPES = [
+  'retrain_models', 'analyze_churn', 'refresh_expired_predictions', 'generate_recommendations', 'compact_predictions', 'generate_clv',
+] as const;
+export const JOB_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'] as const;
+// Every workspace has one schedule for each of these
+export const SCHEDULED_JOB_TYPES = ['refresh_expired_predictions', 'analyze_churn', 'generate_recommendations', 'compact_predictions'] as const;
+
+export type JobType = typeof JOB_TYPES[number];
+export type JobStatus = typeof JOB_STATUSES[number];
+export type ScheduledJobType = typeof SCHEDULED_JOB_TYPES[number];
+
+// Cron expressions (UTC) new workspaces start with: expired predictions hourly,
+// churn and prediction compaction nightly and recommendations weekly
+export const DEFAULT_SCHEDULES: Record<ScheduledJobType, string> = {
+  refresh_expired_predictions: '0 * * * *',
+  analyze_churn: '0 2 * * *',
+  generate_recommendations: '0 3 * * 0',
+  compact_predictions: '0 4 * * *',
+};
+
+// What each job type stores in `result` once it succeeds
+export const retrainModelsResultSchema = z.object({
+  success: z.boolean(),
+  // Mean accuracy of the models that had enough history to evaluate
+  accuracy: z.number().nullable(),
+  modelTypes: z.array(z.enum(MODEL_TYPES)),
+  evaluationIds: z.array(z.number().int()),
+});
+export const analyzeChurnResultSchema = z.object({
+  customers: z.number().int(),
+  highRisk: z.number().int(),
+  newlyHighRisk: z.number().int(),
+});
+
+export const refreshExpiredPredictionsResultSchema = z.object({
+  customers: z.number().int(),
+  clv: z.number().int(),
+  churn: z.number().int(),
+});
+export const generateRecommendationsResultSchema = z.object({
+  count: z.number().int(),
+  byType: z.record(z.number().int()),
+});
+export const compactPredictionsResultSchema = z.object({
+  deleted: z.number().int(),
+});
+export const generateCLVResultSchema = z.object({
+  customers: z.number().int(),
+  // Mean predicted CLV of the customers scored
+  averageCLV: z.number().nullable(),
+});
+
+export type RetrainModelsResult = z.infer<typeof retrainModelsResultSchema>;
+export type AnalyzeChurnResult = z.infer<typeof analyzeChurnResultSchema>;
+export type RefreshExpiredPredictionsResult = z.infer<typeof refreshExpiredPredictionsResultSchema>;
+export type GenerateRecommendationsResult = z.infer<typeof generateRecommendationsResultSchema>;
+export type CompactPredictionsResult = z.infer<typeof compactPredictionsResultSchema>;
+export type GenerateCLVResult = z.infer<typeof generateCLVResultSchema>;
+export type JobResult =
+  | RetrainModelsResult | AnalyzeChurnResult | RefreshExpiredPredictionsResult | GenerateRecommendationsResult | CompactPredictionsResult
+  | GenerateCLVResult;
+
+// A queued or finished background job. `progress` is a percentage; a running job
+// stops at its next progress report once `cancelRequested` is set. `scheduleId` is
+// set on runs started by a schedule.
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
+  type: text("type", { enum: JOB_TYPES }).notNull(),
+  status: text("status", { enum: JOB_STATUSES }).notNull().default('queued'),
+  input: jsonb("input").$type<Record<string, unknown>>().notNull().default({}),
+  result: jsonb("result").$type<JobResult>(),
+  error: text("error"),
+  progress: integer("progress").notNull().default(0),
+  cancelRequested: boolean("cancel_requested").notNull().default(false),
+  createdBy: integer("created_by"),
+  scheduleId: integer("schedule_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  // While running: the worker renews this lease, and once it lapses the job counts as abandoned
+  lockedUntil: timestamp("locked_until"),
+}, (table) => [
+  index("jobs_status_created_idx").on(table.status, table.createdAt),
+  index("jobs_schedule_created_idx").on(table.scheduleId, table.createdAt),
+]);
+
+// Queues a job of `jobType` whenever `cron` matches. `nextRunAt` is null while paused.
+export const schedules = pgTable("schedules", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
+  jobType: text("job_type", { enum: SCHEDULED_JOB_TYPES }).notNull(),
+  cron: text("cron").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  lastJobId: integer("last_job_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("schedules_workspace_job_type_unique").on(table.workspaceId, table.jobType),
+  index("schedules_next_run_idx").on(table.nextRunAt),
+]);
+
+// Events a webhook can subscribe to. `webhook.test` is only sent by the test button.
+export const WEBHOOK_EVENTS = ['customer.churn_risk_high', 'recommendations.regenerated', 'order.created'] as const;
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+export type WebhookDeliveryEvent = WebhookEvent | typeof WEBHOOK_TEST_EVENT;
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+// An endpoint notified about workspace events. Payloads are signed with `secret`
+// (HMAC-SHA256), which is kept in plain text because it is needed to sign.
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
+  url: text("url").notNull(),
+  events: jsonb("events").$type<WebhookEvent[]>().notNull(),
+  secret: text("secret").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// One event sent to one webhook. Failed attempts are retried until `nextAttemptAt`
+// is cleared, either by a 2xx response or by running out of attempts. While an attempt
+// is being sent it holds the time another process may take the delivery over.
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
+  webhookId: integer("webhook_id").notNull(),
+  event: text("event").$type<WebhookDeliveryEvent>().notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  status: text("status", { enum: WEBHOOK_DELIVERY_STATUSES }).notNull().default('pending'),
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("webhook_deliveries_webhook_created_idx").on(table.webhookId, table.createdAt),
+  index("webhook_deliveries_next_attempt_idx").on(table.nextAttemptAt),
+]);
+
+// What an audit event records. The client reports its own actions (imports, preferences and
+// plugins, which live in the browser) through POST /api/audit-events.
+export const AUDIT_ACTIONS = [
+  'workspace.created', 'workspace.member_added', 'workspace.member_removed', 'customer.updated', 'customers.recomputed',
+  'order.created', 'order.status_changed', 'order.cancelled',
+  'product.created', 'product.updated', 'product.deactivated',
+  'prediction.generated', 'recommendations.generated', 'sales_metrics.rebuilt',
+  'job.queued', 'job.cancel_requested', 'job.finished',
+  'schedule.updated', 'user.role_changed', 'api_key.created', 'api_key.revoked',
+  'webhook.created', 'webhook.updated', 'webhook.deleted',
+  'data.imported', 'settings.updated', 'plugin.installed', 'plugin.uninstalled', 'plugin.enabled', 'plugin.disabled',
+] as const;
+export const CLIENT_AUDIT_ACTIONS = [
+  'data.imported', 'settings.updated', 'plugin.installed', 'plugin.uninstalled', 'plugin.enabled', 'plugin.disabled',
+] as const satisfies readonly AuditAction[];
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// Fields that changed, with their values before and after. Created rows only have
+// `after` values and deleted rows only `before` values.
+export type AuditChanges = Record<string, { before?: unknown; after?: unknown }>;
+
+// Append-only record of who did what. `actorId` is null for the scheduler and job
+// worker; `actorName` is kept so the log still reads after a user is gone.
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
+  actorId: integer("actor_id"),
+  actorName: text("actor_name").notNull(),
+  // Set when the actor authenticated with an API key
+  apiKeyId: integer("api_key_id"),
+  action: text("action", { enum: AUDIT_ACTIONS }).notNull(),
+  targetType: text("target_type").notNull(),
+  targetId: text("target_id"),
+  changes: jsonb("changes").$type<AuditChanges>(),
+  metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+  requestId: text("request_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("audit_events_workspace_created_idx").on(table.workspaceId, table.createdAt),
+  index("audit_events_target_idx").on(table.targetType, table.targetId),
+]);
+
 // Insert schemas
+// workspaceId is never accepted from clients: storage stamps the active workspace
+export const insertWorkspaceSchema = createInsertSchema(workspaces, {
+  name: (schema) => schema.trim().min(1, "Workspace name is required"),
+}).pick({
+  name: true,
+});
+
 export const insertCustomerSchema = createInsertSchema(customers).omit({
   id: true,
+  workspaceId: true,
   registrationDate: true,
 });
 
-export const insertOrderSchema = createInsertSchema(orders).omit({
+export const insertOrderSchema = createInsertSchema(orders, {
+  status: z.enum(ORDER_STATUSES).optional(),
+}).omit({
   id: true,
+  workspaceId: true,
   orderDate: true,
 });
 
-export const insertProductSchema = createInsertSchema(products).omit({
+export const insertProductSchema = createInsertSchema(products, {
+  name: (schema) => schema.trim().min(1, "Product name is required"),
+  category: (schema) => schema.trim().min(1, "Category is required"),
+  price: (schema) => schema.regex(/^\d+(\.\d{1,2})?$/, "Price must be a decimal amount"),
+}).omit({
   id: true,
+  workspaceId: true,
 });
 
-export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
+export const updateProductSchema = insertProductSchema.partial();
+
+export const insertOrderItemSchema = createInsertSchema(orderItems, {
+  quantity: (schema) => schema.int().positive("Quantity must be positive"),
+  unitPrice: (schema) => schema.regex(/^\d+(\.\d{1,2})?$/, "Unit price must be a decimal amount"),
+}).omit({
   id: true,
+  workspaceId: true,
+});
+
+// Order placed through the API: totalAmount and itemCount are derived from the items.
+// It can't start out cancelled, as cancelling reverses totals the order never added.
+export const createOrderSchema = insertOrderSchema.omit({
+  totalAmount: true,
+  itemCount: true,
+}).extend({
+  status: z.enum(['pending', 'completed']).optional(),
+  items: z.array(insertOrderItemSchema.omit({ orderId: true })).min(1, "An order needs at least one item"),
+});
+
+export const CUSTOMER_SORT_FIELDS = [
+  'id', 'name', 'email', 'registrationDate', 'totalSpent', 'orderCount',
+  'lastPurchaseDate', 'segment', 'churnRisk', 'predictedCLV', 'churnRiskScore',
+] as const;
+
+export type CustomerSortField = typeof CUSTOMER_SORT_FIELDS[number];
+
+const booleanParam = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+// Query string accepted by GET /api/customers
+export const customerQuerySchema = z.object({
+  search: z.string().trim().min(1).optional(),
+  segment: z.enum(CUSTOMER_SEGMENTS).optional(),
+  churnRisk: z.enum(CHURN_RISK_LEVELS).optional(),
+  isActive: booleanParam.optional(),
+  minSpent: z.coerce.number().nonnegative().optional(),
+  maxSpent: z.coerce.number().nonnegative().optional(),
+  registeredFrom: z.coerce.date().optional(),
+  registeredTo: z.coerce.date().optional(),
+  lastPurchaseFrom: z.coerce.date().optional(),
+  lastPurchaseTo: z.coerce.date().optional(),
+  sortBy: z.enum(CUSTOMER_SORT_FIELDS).default('id'),
+  sortOrder: z.enum(['asc', 'desc']).default('asc'),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+  predictions: booleanParam.default('false'),
+});
+
+// Query string accepted by GET /api/recommendations/products. `category` matches the
+// category of the product the recommendation starts from.
+export const recommendationQuerySchema = z.object({
+  productId: z.coerce.number().int().positive().optional(),
+  type: z.enum(RECOMMENDATION_TYPES).optional(),
+  category: z.string().trim().min(1).optional(),
+  minConfidence: z.coerce.number().min(0).max(1).optional(),
+  minLift: z.coerce.number().nonnegative().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Body of POST /api/customers/recompute. New thresholds are saved on the workspace
+// before the recompute, so later order writes segment customers the same way.
+export const recomputeCustomersSchema = z.object({
+  customerIds: z.array(z.number().int().positive()).min(1).optional(),
+  thresholds: segmentThresholdsSchema.optional(),
+});
+
+// Body of PATCH /api/customers/:id. Totals, segment and churn risk are derived from
+// orders and predictions, so only contact details and the active flag can be edited.
+export const updateCustomerSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").optional(),
+  email: z.string().trim().email("Must be a valid email").optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Numeric :id route parameter
+export const idParamSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+// Body of PUT /api/workspaces/current
+export const switchWorkspaceSchema = z.object({
+  workspaceId: z.coerce.number().int().positive(),
+});
+
+// Route parameters of /api/workspaces/:id/members/:userId
+export const workspaceMemberParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+  userId: z.coerce.number().int().positive(),
+});
+
+// Query string accepted by GET /api/orders
+export const orderQuerySchema = z.object({
+  customerId: z.coerce.number().int().positive().optional(),
+  status: z.enum(ORDER_STATUSES).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Query string accepted by GET /api/products
+export const productQuerySchema = z.object({
+  category: z.string().trim().min(1).optional(),
+  active: booleanParam.optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Query string accepted by GET /api/predictions/clv and /api/predictions/churn
+export const predictionQuerySchema = z.object({
+  customerId: z.coerce.number().int().positive().optional(),
+});
+
+export const generateCLVPredictionSchema = z.object({
+  customerId: z.number().int().positive(),
+});
+
+// Body of POST /api/predictions/clv/batch. Without a segment every customer is scored.
+export const generateCLVBatchSchema = z.object({
+  segment: z.enum(CUSTOMER_SEGMENTS).optional(),
+});
+
+// Query string accepted by GET /api/customers/:id/predictions/history. Without a type
+// both CLV and churn predictions are returned.
+export const predictionHistoryQuerySchema = z.object({
+  type: z.enum(['clv', 'churn']).optional(),
+  limit: z.coerce.number().int().min(1).max(365).default(90),
+});
+
+// Query string accepted by GET /api/forecast/sales
+export const salesForecastQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  startDate: z.coerce.date().optional(),
+});
+
+// Query string accepted by GET /api/sales-metrics
+export const salesMetricsQuerySchema = z.object({
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+});
+
+export const rebuildSalesMetricsSchema = z.object({
+  full: z.boolean().default(false),
+});
+
+// What GET /api/export/:entity can download, and in which file formats
+export const EXPORT_ENTITIES = ['customers', 'orders', 'recommendations', 'forecast'] as const;
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'ndjson'] as const;
+
+export type ExportEntity = typeof EXPORT_ENTITIES[number];
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const exportParamsSchema = z.object({
+  entity: z.enum(EXPORT_ENTITIES),
+});
+
+// Query string accepted by GET /api/export/:entity. Each entity only reads its own filters:
+// segment and churnRisk for customers, status and dates for orders, type and category
+// for recommendations and days for the forecast.
+export const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('csv'),
+  segment: z.enum(CUSTOMER_SEGMENTS).optional(),
+  churnRisk: z.enum(CHURN_RISK_LEVELS).optional(),
+  status: z.enum(ORDER_STATUSES).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  type: z.enum(RECOMMENDATION_TYPES).optional(),
+  category: z.string().trim().min(1).optional(),
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+export const retrainModelsSchema = z.object({
+  modelType: z.enum([...MODEL_TYPES, 'all']),
+});
+
+export const modelEvaluationQuerySchema = z.object({
+  modelType: z.enum(MODEL_TYPES).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Cancelling goes through its own endpoint so customer totals are reversed
+export const updateOrderStatusSchema = z.object({
+  status: z.enum(['pending', 'completed']),
 });
 
 export const insertMLPredictionSchema = createInsertSchema(mlPredictions).omit({
   id: true,
+  workspaceId: true,
   createdAt: true,
 });
 
 export const insertSalesMetricSchema = createInsertSchema(salesMetrics).omit({
   id: true,
+  workspaceId: true,
 });
 
 export const insertProductRecommendationSchema = createInsertSchema(productRecommendations).omit({
   id: true,
+  workspaceId: true,
   createdAt: true,
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  role: true,
+});
+
+export const registerUserSchema = insertUserSchema.omit({ role: true }).extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export const loginUserSchema = insertUserSchema.omit({ role: true }).extend({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
 });
 
 // Types
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+
 export type Customer = typeof customers.$inferSelect;
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type CreateOrder = z.infer<typeof createOrderSchema>;
 
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type UpdateProduct = z.infer<typeof updateProductSchema>;
 
 export type OrderItem = typeof orderItems.$inferSelect;
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
@@ -139,8 +653,137 @@ export type InsertSalesMetric = z.infer<typeof insertSalesMetricSchema>;
 export type ProductRecommendation = typeof productRecommendations.$inferSelect;
 export type InsertProductRecommendation = z.infer<typeof insertProductRecommendationSchema>;
 
+export type ModelEvaluation = typeof modelEvaluations.$inferSelect;
+export type InsertModelEvaluation = Omit<typeof modelEvaluations.$inferInsert, 'id' | 'workspaceId'>;
+
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type LoginUser = z.infer<typeof loginUserSchema>;
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(USER_ROLES),
+});
+
+// User as returned by the API, never exposing the password hash
+export type PublicUser = Omit<User, 'password'>;
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = typeof apiKeys.$inferInsert;
+// API key as returned by the API, never exposing the hash
+export type PublicApiKey = Omit<ApiKey, 'keyHash'>;
+
+// Keys without an expiry stay valid until revoked
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scope: z.enum(API_KEY_SCOPES).default('read'),
+  expiresInDays: z.number().int().min(1).max(3650).optional(),
+});
+
+export type CreateApiKey = z.infer<typeof createApiKeySchema>;
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = Omit<typeof jobs.$inferInsert, 'id' | 'workspaceId'>;
+
+// Query string accepted by GET /api/jobs
+export const jobQuerySchema = z.object({
+  status: z.enum(JOB_STATUSES).optional(),
+  type: z.enum(JOB_TYPES).optional(),
+  scheduleId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(20),
+});
+
+export type JobQuery = z.infer<typeof jobQuerySchema>;
+export type JobQueryParams = z.input<typeof jobQuerySchema>;
+
+export type Schedule = typeof schedules.$inferSelect;
+export type InsertSchedule = Omit<typeof schedules.$inferInsert, 'id' | 'workspaceId'>;
+
+export const cronExpressionSchema = z.string().trim().superRefine((expression, ctx) => {
+  try {
+    nextCronRun(expression, new Date());
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : "Invalid cron expression" });
+  }
+});
+
+// Resuming a paused schedule waits for the next time its expression matches
+export const updateScheduleSchema = z.object({
+  cron: cronExpressionSchema.optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type UpdateSchedule = z.infer<typeof updateScheduleSchema>;
+
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = Omit<typeof webhooks.$inferInsert, 'id' | 'workspaceId'>;
+// Webhook as returned by the API; the secret is only shown when the webhook is created
+export type PublicWebhook = Omit<Webhook, 'secret'>;
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = Omit<typeof webhookDeliveries.$inferInsert, 'id' | 'workspaceId'>;
+
+const webhookUrlSchema = z.string().trim().url("Must be a valid URL")
+  .refine((url) => /^https?:\/\//i.test(url), "Must be an http(s) URL");
+const webhookEventsSchema = z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Pick at least one event")
+  .transform((events) => Array.from(new Set(events)));
+
+// A secret is generated when none is given
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: webhookEventsSchema,
+  secret: z.string().min(16, "Secret must be at least 16 characters").max(256).optional(),
+});
+
+export const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  events: webhookEventsSchema.optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const webhookDeliveryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type CreateWebhook = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhook = z.infer<typeof updateWebhookSchema>;
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = Omit<typeof auditEvents.$inferInsert, 'id' | 'workspaceId'>;
+
+// Filters shared by GET /api/audit-events and its CSV export
+const auditEventFiltersSchema = z.object({
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  actorId: z.coerce.number().int().positive().optional(),
+  targetType: z.string().trim().min(1).optional(),
+  targetId: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Query string accepted by GET /api/audit-events
+export const auditEventQuerySchema = auditEventFiltersSchema.extend({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Query string accepted by GET /api/audit-events/export, which returns every match
+export const auditEventExportQuerySchema = auditEventFiltersSchema;
+
+// Body of POST /api/audit-events: an action taken in the browser. The actor and
+// time come from the request.
+export const recordAuditEventSchema = z.object({
+  action: z.enum(CLIENT_AUDIT_ACTIONS),
+  targetType: z.string().trim().min(1).max(100),
+  targetId: z.string().trim().min(1).max(200).optional(),
+  before: z.record(z.unknown()).optional(),
+  after: z.record(z.unknown()).optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export type AuditEventQuery = z.infer<typeof auditEventQuerySchema>;
+export type AuditEventQueryParams = z.input<typeof auditEventQuerySchema>;
+export type AuditEventExportQueryParams = z.input<typeof auditEventExportQuerySchema>;
+export type RecordAuditEvent = z.infer<typeof recordAuditEventSchema>;
 
 // Extended types for API responses
 export type CustomerWithPredictions = Customer & {
@@ -150,6 +793,38 @@ export type CustomerWithPredictions = Customer & {
   churnRiskScore?: number;
 };
 
+export type CustomerQuery = z.infer<typeof customerQuerySchema>;
+export type CustomerQueryParams = z.input<typeof customerQuerySchema>;
+export type UpdateCustomer = z.infer<typeof updateCustomerSchema>;
+export type RecomputeCustomers = z.infer<typeof recomputeCustomersSchema>;
+export type RetrainModels = z.infer<typeof retrainModelsSchema>;
+export type GenerateCLVBatch = z.infer<typeof generateCLVBatchSchema>;
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+export type ExportQueryParams = z.input<typeof exportQuerySchema>;
+export type RecommendationQuery = z.infer<typeof recommendationQuerySchema>;
+export type RecommendationQueryParams = z.input<typeof recommendationQuerySchema>;
+export type PredictionHistoryQuery = z.infer<typeof predictionHistoryQuerySchema>;
+export type PredictionHistoryQueryParams = z.input<typeof predictionHistoryQuerySchema>;
+
+// One page of a list endpoint, with the total number of matching rows
+export type Paginated<T> = {
+  data: T[];
+  total: number;
+  limit: number;
+  offset: number;
+};
+
+export type OrderWithItems = Order & {
+  items: OrderItem[];
+};
+
+// Recommendation with the names of both products, for listings
+export type ProductRecommendationWithProducts = ProductRecommendation & {
+  productName: string;
+  productCategory: string;
+  recommendedProductName: string;
+};
+
 export type ProductWithRecommendations = Product & {
   crossSellProducts?: ProductRecommendation[];
   upSellProducts?: ProductRecommendation[];
@@ -162,14 +837,17 @@ export type DashboardMetrics = {
   avgOrderValue: number;
   avgCLV: number;
   churnRiskPercentage: number;
-  forecastAccuracy: number;
+  forecastAccuracy: number | null;
+  // Cross-sell recommendations currently stored
   crossSellOpportunities: number;
+  // Accuracy from each model's latest evaluation; null until one has run
   modelMetrics: {
-    clvAccuracy: number;
-    churnAccuracy: number;
-    forecastAccuracy: number;
-    recommendationAccuracy: number;
-    lastUpdate: Date;
+    clvAccuracy: number | null;
+    churnAccuracy: number | null;
+    forecastAccuracy: number | null;
+    recommendationAccuracy: number | null;
+    // When the newest of those evaluations ran
+    lastUpdate: Date | null;
   };
 };
 
@@ -178,6 +856,11 @@ export type MLInsight = {
   title: string;
   description: string;
   impact: string;
+  // Estimated effect in revenue, used to rank insights
+  estimatedImpact: number;
   confidence: number;
   actionable: boolean;
+  // Customers and products the insight concerns, most significant first
+  customerIds: number[];
+  productIds: number[];
 };